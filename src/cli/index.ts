@@ -0,0 +1,673 @@
+import { webcrypto } from "crypto";
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  checkOperator,
+  getSignerAddress,
+  initWithPrivateKey,
+  setContractCharacterHandle,
+} from "@/common/contract";
+import {
+  ExportEntry,
+  getExportResult,
+  loadExportFromEntries,
+} from "@/common/export";
+import {
+  aggregateMessages,
+  AggregateMediaType,
+  AggregateMediaTypeLabels,
+  claimLegacyChatProgress,
+  ExportChat,
+  getExportChats,
+  isAggregateMigrated,
+  isSelectedByDefault,
+} from "@/common/messages";
+import { createMigrateControl, migrateMessages } from "@/common/migrate";
+import {
+  createDryRunBundle,
+  createDryRunPlan,
+  describeDryRunBundle,
+  dryRunMessage,
+  DryRunNote,
+} from "@/common/dryrun";
+import { parseTagRules } from "@/common/tags";
+import {
+  compileContentRule,
+  ContentRule,
+  ContentRuleTypeLabels,
+} from "@/common/rules";
+import {
+  createBalanceGuard,
+  describeCostEstimate,
+  estimateMigrationCost,
+  formatCSB,
+  getFaucetLink,
+} from "@/common/cost";
+import {
+  createMemoryCacheStore,
+  describeUploadCacheStats,
+  setUploadCacheStore,
+} from "@/common/cache";
+import {
+  createStorageBackend,
+  setStorageBackend,
+  StorageBackendType,
+} from "@/common/ipfs";
+import {
+  createProfile,
+  getChatProgress,
+  getCurrentProfile,
+  getMessageFailure,
+  getProfiles,
+  getSetting,
+  loadProgress,
+  ProgressStore,
+  Setting,
+  SessionStore,
+  setProgressStore,
+  setSessionStore,
+  setSetting,
+  switchProfile,
+} from "@/common/session";
+
+// Node 18 has no global Web Crypto, which hashing media and notes needs
+if (!globalThis.crypto) {
+  (globalThis as any).crypto = webcrypto;
+}
+
+// While paused for insufficient balance
+const balancePollInterval = 30 * 1000;
+
+const usage = `Usage: npm run cli -- [options]
+
+Options (environment variable in brackets):
+  -e, --export <dir>         Telegram exported data's directory [T2C_EXPORT_DIR]
+  -c, --handle <handle>      Crossbell character handle [T2C_CHARACTER_HANDLE]
+      --channel <name>       Telegram channel username [T2C_CHANNEL_NAME]
+      --chat <id>[:<name>]   Chat to migrate from a full-account export, with its
+                             channel username, repeatable [T2C_CHATS, comma separated]
+      --private-key <key>    Signer private key [T2C_PRIVATE_KEY]
+  -p, --progress <file>      Progress file, default t2c-progress.json [T2C_PROGRESS_FILE]
+      --profile <name>       Profile inside the progress file, created if missing,
+                             default the last one used [T2C_PROFILE]
+      --upload-cache <file>  Uploaded media cache, default t2c-upload-cache.json
+                             [T2C_UPLOAD_CACHE_FILE]
+      --storage <backend>    Upload to relay (default), kubo or local (dry runs only)
+                             [T2C_STORAGE]
+      --kubo-api <url>       IPFS node API URL for kubo storage [T2C_KUBO_API]
+      --retries <n>          Retries on network or chain errors, default 3 [T2C_RETRIES]
+      --concurrency <n>      Messages uploading ahead of posting, default 3 [T2C_CONCURRENCY]
+      --in-flight <n>        Notes sent without waiting for the ones before to be
+                             mined, still a transaction each, default 1 [T2C_IN_FLIGHT]
+      --continue-on-error    Record failed messages and move on [T2C_CONTINUE_ON_ERROR=1]
+      --retry-failed         Only migrate messages failed last time
+      --dry-run <file>       Write the notes to be published into a JSON bundle,
+                             without uploading or posting anything. Needs neither
+                             signer nor network.
+      --include-service      Include service notifications [T2C_INCLUDE_SERVICE=1]
+      --exclude-action <action>
+                             Leave out a service action like pin_message, repeatable
+                             [T2C_EXCLUDE_ACTIONS, comma separated]
+      --aggregate            Aggregate messages by timestamp [T2C_AGGREGATE=1]
+      --aggregate-window <s> Seconds between aggregated messages, default 5
+                             [T2C_AGGREGATE_WINDOW]
+      --aggregate-media <types>
+                             Media aggregated, of photo, video and document, default
+                             photo [T2C_AGGREGATE_MEDIA, comma separated]
+      --aggregate-join-text  Aggregate even when both have text, joining them
+                             [T2C_AGGREGATE_JOIN_TEXT=1]
+      --strip-hashtags       Remove hashtags from content, they are kept as tags [T2C_STRIP_HASHTAGS=1]
+      --tag-rule <kw=tag>    Add tag when message contains keyword, repeatable [T2C_TAG_RULES, one per line]
+      --skip-forwards        Skip forwarded messages [T2C_SKIP_FORWARDS=1]
+      --forward-attribution <template>
+                             Prepended to forwarded messages, {source} is replaced,
+                             empty to disable [T2C_FORWARD_ATTRIBUTION]
+      --rules <file>         Content rules as a JSON array of {type, pattern,
+                             replacement}, type being replace, signature, links,
+                             prepend or append [T2C_RULES_FILE]
+  -h, --help                 Show this help
+
+Settings are saved to the progress file for later runs. Switches like
+--strip-hashtags are turned off again with --no-strip-hashtags, or with 0 as
+their environment variable.
+`;
+
+// --flag turns it on and --no-flag off, over the environment variable ("1"
+// or "0") and the stored setting
+const pickBoolean = (
+  on: boolean | undefined,
+  off: boolean | undefined,
+  envValue: string | undefined,
+  stored: boolean
+): boolean =>
+  on ? true : off ? false : envValue !== undefined ? envValue === "1" : stored;
+
+// Keeps session keys and progress records in one file, a JSON line for each
+// change so a note posted doesn't rewrite it all. Compacted when opened.
+const createFileStore = (file: string): SessionStore & ProgressStore => {
+  const data = new Map<string, any>();
+  if (fs.existsSync(file)) {
+    const content = fs.readFileSync(file, "utf8");
+    let whole: any;
+    try {
+      whole = JSON.parse(content);
+    } catch (e) {
+      // More than one line
+    }
+    if (whole && !("key" in whole)) {
+      // Saved as one JSON object before, its progress is moved over on load
+      for (const [key, value] of Object.entries(whole)) {
+        data.set(`session:${key}`, value);
+      }
+    } else {
+      for (const line of content.split("\n")) {
+        let change: { key: string; value?: any };
+        try {
+          change = JSON.parse(line);
+        } catch (e) {
+          // Empty, or cut short by a crash while writing
+          continue;
+        }
+        if (change.value === undefined) {
+          data.delete(change.key);
+        } else {
+          data.set(change.key, change.value);
+        }
+      }
+    }
+  }
+
+  const toLine = (key: string, value: any) =>
+    `${JSON.stringify({ key, value })}\n`;
+  const append = (changes: [string, any][]) => {
+    for (const [key, value] of changes) {
+      if (value === undefined) {
+        data.delete(key);
+      } else {
+        data.set(key, value);
+      }
+    }
+    fs.appendFileSync(
+      file,
+      changes.map(([key, value]) => toLine(key, value)).join("")
+    );
+  };
+
+  fs.writeFileSync(
+    file,
+    Array.from(data, ([key, value]) => toLine(key, value)).join("")
+  );
+
+  return {
+    getItem: (key) =>
+      data.has(`session:${key}`)
+        ? JSON.stringify(data.get(`session:${key}`))
+        : null,
+    setItem: (key, value) => {
+      append([[`session:${key}`, JSON.parse(value)]]);
+    },
+    removeItem: (key) => {
+      append([[`session:${key}`, undefined]]);
+    },
+    load: async () => {
+      const records: { [key: string]: any } = {};
+      data.forEach((value, key) => {
+        if (key.startsWith("progress:")) {
+          records[key.slice("progress:".length)] = value;
+        }
+      });
+      return records;
+    },
+    save: async (records) => {
+      append(
+        Object.entries(records).map(([key, value]) => [
+          `progress:${key}`,
+          value,
+        ])
+      );
+    },
+  };
+};
+
+const readExportDirectory = async (
+  root: string,
+  dir: string = ""
+): Promise<ExportEntry[]> => {
+  const entries: ExportEntry[] = [];
+  const children = await fs.promises.readdir(path.join(root, dir), {
+    withFileTypes: true,
+  });
+  for (const child of children) {
+    const relativePath = dir ? `${dir}/${child.name}` : child.name;
+    if (child.isDirectory()) {
+      entries.push(...(await readExportDirectory(root, relativePath)));
+    } else if (child.isFile()) {
+      const fullPath = path.join(root, relativePath);
+      entries.push({
+        path: relativePath,
+        load: async () => new Blob([await fs.promises.readFile(fullPath)]),
+      });
+    }
+  }
+  return entries;
+};
+
+const dryRun = async (chats: ExportChat[], settings: Setting, file: string) => {
+  const notes: DryRunNote[] = [];
+  const plan = createDryRunPlan();
+  for (const chat of chats) {
+    const messages = aggregateMessages(chat.messages, settings).filter((msg) =>
+      isSelectedByDefault(msg, settings)
+    );
+    for (const message of messages) {
+      const note = await dryRunMessage(chat, message, settings, plan);
+      if (!note) continue;
+      notes.push(note);
+      for (const warning of note.warnings) {
+        console.warn(`#${message.id} ${warning}`);
+      }
+    }
+  }
+
+  const bundle = createDryRunBundle(notes, settings);
+  await fs.promises.writeFile(file, JSON.stringify(bundle, null, 2));
+  console.info(`Would publish ${describeDryRunBundle(bundle)}, see ${file}`);
+};
+
+const main = async () => {
+  const { values: args } = parseArgs({
+    options: {
+      export: { type: "string", short: "e" },
+      handle: { type: "string", short: "c" },
+      channel: { type: "string" },
+      chat: { type: "string", multiple: true },
+      "private-key": { type: "string" },
+      progress: { type: "string", short: "p" },
+      profile: { type: "string" },
+      "upload-cache": { type: "string" },
+      storage: { type: "string" },
+      "kubo-api": { type: "string" },
+      retries: { type: "string" },
+      concurrency: { type: "string" },
+      "in-flight": { type: "string" },
+      "continue-on-error": { type: "boolean" },
+      "no-continue-on-error": { type: "boolean" },
+      "retry-failed": { type: "boolean" },
+      "dry-run": { type: "string" },
+      "include-service": { type: "boolean" },
+      "no-include-service": { type: "boolean" },
+      "exclude-action": { type: "string", multiple: true },
+      aggregate: { type: "boolean" },
+      "no-aggregate": { type: "boolean" },
+      "aggregate-window": { type: "string" },
+      "aggregate-media": { type: "string" },
+      "aggregate-join-text": { type: "boolean" },
+      "no-aggregate-join-text": { type: "boolean" },
+      "strip-hashtags": { type: "boolean" },
+      "no-strip-hashtags": { type: "boolean" },
+      "tag-rule": { type: "string", multiple: true },
+      "skip-forwards": { type: "boolean" },
+      "no-skip-forwards": { type: "boolean" },
+      "forward-attribution": { type: "string" },
+      rules: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (args.help) {
+    console.info(usage);
+    return;
+  }
+
+  const env = process.env;
+  const exportDir = args.export || env.T2C_EXPORT_DIR;
+  const privateKey = args["private-key"] || env.T2C_PRIVATE_KEY || "";
+  const progressFile =
+    args.progress || env.T2C_PROGRESS_FILE || "t2c-progress.json";
+  const uploadCacheFile =
+    args["upload-cache"] ||
+    env.T2C_UPLOAD_CACHE_FILE ||
+    "t2c-upload-cache.json";
+  if (!exportDir) {
+    throw new Error(`No export directory provided.\n\n${usage}`);
+  }
+
+  // Settings from flags override those saved in progress file
+  const fileStore = createFileStore(progressFile);
+  setSessionStore(fileStore);
+  setProgressStore(fileStore);
+  await loadProgress();
+  const profileName = args.profile || env.T2C_PROFILE;
+  if (profileName) {
+    const profile =
+      getProfiles().find(
+        ({ id, name }) => name === profileName || id === profileName
+      ) || createProfile(profileName);
+    switchProfile(profile.id);
+  }
+  console.info(`Using profile ${getCurrentProfile().name}`);
+  setUploadCacheStore(
+    createMemoryCacheStore(
+      fs.existsSync(uploadCacheFile)
+        ? JSON.parse(fs.readFileSync(uploadCacheFile, "utf8"))
+        : {},
+      (entries) => {
+        fs.writeFileSync(uploadCacheFile, JSON.stringify(entries, null, 2));
+      }
+    )
+  );
+  const storedSetting = getSetting();
+  const settings = {
+    ...storedSetting,
+    characterHandle:
+      args.handle || env.T2C_CHARACTER_HANDLE || storedSetting.characterHandle,
+    channelName:
+      args.channel || env.T2C_CHANNEL_NAME || storedSetting.channelName,
+    includeService: pickBoolean(
+      args["include-service"],
+      args["no-include-service"],
+      env.T2C_INCLUDE_SERVICE,
+      storedSetting.includeService
+    ),
+    excludedServiceActions:
+      args["exclude-action"] ||
+      (env.T2C_EXCLUDE_ACTIONS
+        ? env.T2C_EXCLUDE_ACTIONS.split(",")
+        : storedSetting.excludedServiceActions),
+    aggregatedByTsp: pickBoolean(
+      args.aggregate,
+      args["no-aggregate"],
+      env.T2C_AGGREGATE,
+      storedSetting.aggregatedByTsp
+    ),
+    aggregateWindow:
+      args["aggregate-window"] || env.T2C_AGGREGATE_WINDOW
+        ? parseInt(args["aggregate-window"] || env.T2C_AGGREGATE_WINDOW || "")
+        : storedSetting.aggregateWindow,
+    aggregateMediaTypes:
+      args["aggregate-media"] || env.T2C_AGGREGATE_MEDIA
+        ? ((args["aggregate-media"] || env.T2C_AGGREGATE_MEDIA || "").split(
+            ","
+          ) as AggregateMediaType[])
+        : storedSetting.aggregateMediaTypes,
+    aggregateJoinText: pickBoolean(
+      args["aggregate-join-text"],
+      args["no-aggregate-join-text"],
+      env.T2C_AGGREGATE_JOIN_TEXT,
+      storedSetting.aggregateJoinText
+    ),
+    stripHashtags: pickBoolean(
+      args["strip-hashtags"],
+      args["no-strip-hashtags"],
+      env.T2C_STRIP_HASHTAGS,
+      storedSetting.stripHashtags
+    ),
+    tagRules:
+      args["tag-rule"] || env.T2C_TAG_RULES
+        ? parseTagRules(
+            (args["tag-rule"] || []).join("\n") || env.T2C_TAG_RULES || ""
+          )
+        : storedSetting.tagRules,
+    skipForwards: pickBoolean(
+      args["skip-forwards"],
+      args["no-skip-forwards"],
+      env.T2C_SKIP_FORWARDS,
+      storedSetting.skipForwards
+    ),
+    forwardAttribution:
+      args["forward-attribution"] ??
+      env.T2C_FORWARD_ATTRIBUTION ??
+      storedSetting.forwardAttribution,
+    contentRules:
+      args.rules || env.T2C_RULES_FILE
+        ? (
+            JSON.parse(
+              fs.readFileSync(args.rules || env.T2C_RULES_FILE || "", "utf8")
+            ) as Partial<ContentRule>[]
+          ).map(
+            (rule) => ({ pattern: "", replacement: "", ...rule } as ContentRule)
+          )
+        : storedSetting.contentRules,
+    storageBackend: (args.storage ||
+      env.T2C_STORAGE ||
+      storedSetting.storageBackend) as StorageBackendType,
+    kuboApiUrl:
+      args["kubo-api"] || env.T2C_KUBO_API || storedSetting.kuboApiUrl,
+    retryCount:
+      args.retries || env.T2C_RETRIES
+        ? parseInt(args.retries || env.T2C_RETRIES || "")
+        : storedSetting.retryCount,
+    uploadConcurrency:
+      args.concurrency || env.T2C_CONCURRENCY
+        ? parseInt(args.concurrency || env.T2C_CONCURRENCY || "")
+        : storedSetting.uploadConcurrency,
+    notesInFlight:
+      args["in-flight"] || env.T2C_IN_FLIGHT
+        ? parseInt(args["in-flight"] || env.T2C_IN_FLIGHT || "")
+        : storedSetting.notesInFlight,
+    continueOnError: pickBoolean(
+      args["continue-on-error"],
+      args["no-continue-on-error"],
+      env.T2C_CONTINUE_ON_ERROR,
+      storedSetting.continueOnError
+    ),
+  };
+  if (isNaN(settings.retryCount) || settings.retryCount < 0) {
+    throw new Error(`Invalid number of retries.\n\n${usage}`);
+  }
+  if (isNaN(settings.uploadConcurrency) || settings.uploadConcurrency < 1) {
+    throw new Error(`Invalid concurrency.\n\n${usage}`);
+  }
+  if (isNaN(settings.notesInFlight) || settings.notesInFlight < 1) {
+    throw new Error(`Invalid number of notes in flight.\n\n${usage}`);
+  }
+  if (isNaN(settings.aggregateWindow) || settings.aggregateWindow < 1) {
+    throw new Error(`Invalid aggregate window.\n\n${usage}`);
+  }
+  for (const type of settings.aggregateMediaTypes) {
+    if (!(type in AggregateMediaTypeLabels)) {
+      throw new Error(`Unknown media type ${type} to aggregate.\n\n${usage}`);
+    }
+  }
+  for (const rule of settings.contentRules) {
+    if (!(rule.type in ContentRuleTypeLabels)) {
+      throw new Error(`Unknown content rule ${rule.type}.\n\n${usage}`);
+    }
+    try {
+      compileContentRule(rule);
+    } catch (e: any) {
+      throw new Error(`Invalid content rule: ${e.message}`);
+    }
+  }
+  if (!["relay", "kubo", "local"].includes(settings.storageBackend)) {
+    throw new Error(
+      `Unknown storage backend ${settings.storageBackend}.\n\n${usage}`
+    );
+  }
+  if (settings.storageBackend === "local" && !args["dry-run"]) {
+    throw new Error(
+      `The local storage backend uploads nothing, it's for dry runs only.\n\n${usage}`
+    );
+  }
+  if (!settings.characterHandle && !args["dry-run"]) {
+    throw new Error(`No character handle provided.\n\n${usage}`);
+  }
+
+  console.info(`Reading export from ${exportDir}...`);
+  await loadExportFromEntries(await readExportDirectory(exportDir));
+
+  let chats = getExportChats(getExportResult());
+  if (chats[0]?.isFromAccountExport) {
+    const chatArgs =
+      args.chat || (env.T2C_CHATS ? env.T2C_CHATS.split(",") : []);
+    if (chatArgs.length === 0) {
+      throw new Error(
+        `This is a full-account export, please pick chats with --chat:\n${chats
+          .map(
+            (chat) =>
+              `  ${chat.id}\t${chat.name} (${chat.type}, ${chat.messages.length} messages)`
+          )
+          .join("\n")}`
+      );
+    }
+
+    const selectedChats: ExportChat[] = [];
+    for (const chatArg of chatArgs) {
+      const [chatId, channelName] = chatArg.split(":");
+      const chat = chats.find((c) => c.id.toString() === chatId);
+      if (!chat) {
+        throw new Error(`Cannot find chat ${chatId} in the export`);
+      }
+      selectedChats.push(chat);
+      if (channelName !== undefined) {
+        settings.chatChannelNames = {
+          ...settings.chatChannelNames,
+          [chat.id]: channelName,
+        };
+      }
+    }
+    chats = selectedChats;
+  }
+  claimLegacyChatProgress(chats, settings);
+
+  if (args["dry-run"]) {
+    // Only links to migrated notes need the character, so it works offline
+    if (settings.characterHandle) {
+      await setContractCharacterHandle(settings.characterHandle).catch((e) =>
+        console.warn(`Cannot look up the character, ${e.message}`)
+      );
+    }
+    await dryRun(chats, settings, args["dry-run"]);
+    return;
+  }
+  // Not on dry runs, or their local storage would stick for the next run
+  setSetting(settings);
+
+  console.info("Initializing basic information...");
+  await setContractCharacterHandle(settings.characterHandle);
+
+  setStorageBackend(createStorageBackend(settings));
+  await initWithPrivateKey(privateKey);
+  const signerAddress = getSignerAddress();
+
+  if (!(await checkOperator())) {
+    throw new Error(
+      `Current address is not authorized to sync for ${settings.characterHandle}: ${signerAddress}`
+    );
+  }
+
+  // Migrated ones are left out, so the balance is asked only for what's left
+  const chatMessages = chats.map((chat) => {
+    const chatProgress = getChatProgress(chat.id);
+    return aggregateMessages(chat.messages, settings).filter(
+      (msg) =>
+        (args["retry-failed"]
+          ? !!getMessageFailure(chatProgress, msg.id)
+          : isSelectedByDefault(msg, settings)) &&
+        !isAggregateMigrated(chatProgress, msg)
+    );
+  });
+
+  const estimate = await estimateMigrationCost(
+    chatMessages.reduce((count, messages) => count + messages.length, 0)
+  );
+  console.info(`${describeCostEstimate(estimate)}.`);
+  if (!estimate.isSufficient) {
+    throw new Error(
+      `The signer ${signerAddress} has insufficient $CSB balance, visit ${getFaucetLink()} for some.`
+    );
+  }
+  const guardBalance = createBalanceGuard(
+    estimate.perNote,
+    async (balance, required) => {
+      console.warn(
+        `Paused, the signer has ${formatCSB(
+          balance
+        )} while the remaining notes need about ${formatCSB(
+          required
+        )}. Visit ${getFaucetLink()} for some, checking again in ${
+          balancePollInterval / 1000
+        }s...`
+      );
+      await new Promise((resolve) => setTimeout(resolve, balancePollInterval));
+    }
+  );
+
+  // First Ctrl+C stops after the notes in flight, the second one quits
+  const control = createMigrateControl();
+  process.once("SIGINT", () => {
+    console.warn(
+      "Stopping after the notes in flight, press Ctrl+C again to quit now..."
+    );
+    control.cancel();
+  });
+
+  let failedCount = 0;
+  for (let chatIndex = 0; chatIndex < chats.length; chatIndex++) {
+    const chat = chats[chatIndex];
+    const messages = chatMessages[chatIndex];
+    if (chat.isFromAccountExport) {
+      console.info(`Migrating ${chat.name} (${chat.id})...`);
+    }
+
+    const prefix = (index: number) =>
+      `[${index + 1}/${messages.length}] #${messages[index].id}`;
+    failedCount += await migrateMessages(
+      messages.map((message) => ({ chat, message })),
+      settings,
+      {
+        onMigrated: (index, { status, postedNote }) => {
+          if (status === "skipped") {
+            console.info(`${prefix(index)} already migrated, skipped`);
+          } else if (status === "recovered") {
+            console.info(
+              `${prefix(index)} found already posted as note ${
+                postedNote!.noteId
+              }, recorded`
+            );
+          } else {
+            console.info(
+              `${prefix(index)} migrated as note ${postedNote!.noteId} (${
+                postedNote!.transactionHash
+              })`
+            );
+          }
+        },
+        onFailed: (index, e) => {
+          console.error(`${prefix(index)} failed: ${e.message}`);
+        },
+        onRetry: (index, e, attempt, delay) => {
+          console.warn(
+            `${prefix(index)} ${e.message}, retrying in ${Math.round(
+              delay / 1000
+            )}s (${attempt}/${settings.retryCount})`
+          );
+        },
+        beforePosting: guardBalance,
+      },
+      control
+    );
+    if (control.isCancelled()) {
+      break;
+    }
+  }
+
+  if (control.isCancelled()) {
+    throw new Error("Cancelled, run again to continue from here");
+  }
+  if (failedCount > 0) {
+    throw new Error(
+      `${failedCount} messages failed, run again with --retry-failed to retry only them`
+    );
+  }
+  console.info(`All finished, ${describeUploadCacheStats()}`);
+};
+
+main().then(
+  () => process.exit(0),
+  (e: any) => {
+    console.error(`Oops, something is wrong: ${e.message}`);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,135 @@
+import { getStorageBackend, StorageBackend } from "./ipfs";
+import { openDB, promisify } from "./db";
+
+// Persistent map from content hash to uploaded URI
+export interface UploadCacheStore {
+  get: (key: string) => Promise<string | undefined>;
+  set: (key: string, uri: string) => Promise<void>;
+}
+
+export interface UploadCacheStats {
+  hits: number;
+  bytesSaved: number;
+}
+
+const dbStoreName = "uploads";
+
+export const createIndexedDBCacheStore = (): UploadCacheStore => ({
+  get: async (key) =>
+    promisify<string | undefined>(
+      (await openDB())
+        .transaction(dbStoreName, "readonly")
+        .objectStore(dbStoreName)
+        .get(key)
+    ),
+  set: async (key, uri) => {
+    await promisify(
+      (await openDB())
+        .transaction(dbStoreName, "readwrite")
+        .objectStore(dbStoreName)
+        .put(uri, key)
+    );
+  },
+});
+
+export const createMemoryCacheStore = (
+  entries: { [key: string]: string } = {},
+  onChange?: (entries: { [key: string]: string }) => void
+): UploadCacheStore => ({
+  get: async (key) => entries[key],
+  set: async (key, uri) => {
+    entries[key] = uri;
+    onChange?.(entries);
+  },
+});
+
+let cacheStore: UploadCacheStore | null = null;
+// Same file uploading at the same time, within this session
+const pendingUploads = new Map<string, Promise<string>>();
+let stats: UploadCacheStats = { hits: 0, bytesSaved: 0 };
+
+const getCacheStore = (): UploadCacheStore => {
+  if (!cacheStore) {
+    cacheStore =
+      typeof indexedDB !== "undefined"
+        ? createIndexedDBCacheStore()
+        : createMemoryCacheStore();
+  }
+
+  return cacheStore;
+};
+
+export const setUploadCacheStore = (store: UploadCacheStore) => {
+  cacheStore = store;
+};
+
+export const getUploadCacheStats = (): UploadCacheStats => ({ ...stats });
+
+export const resetUploadCacheStats = () => {
+  stats = { hits: 0, bytesSaved: 0 };
+};
+
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+const countHit = (blob: Blob) => {
+  stats.hits++;
+  stats.bytesSaved += blob.size;
+};
+
+const lookupOrUpload = async (
+  backend: StorageBackend,
+  key: string,
+  blob: Blob
+): Promise<string> => {
+  const cachedUri = await getCacheStore()
+    .get(key)
+    .catch(() => undefined);
+  if (cachedUri) {
+    countHit(blob);
+    return cachedUri;
+  }
+
+  const uri = await backend.uploadFile(blob);
+  // Failing to remember only costs a re-upload later
+  await getCacheStore()
+    .set(key, uri)
+    .catch((e) => console.warn(`Failed to cache upload, ${e.message}`));
+  return uri;
+};
+
+// Upload a file unless the same content was uploaded to this backend before
+export const cachedUploadFile = async (blob: Blob): Promise<string> => {
+  const backend = getStorageBackend();
+  if (!backend.isPersistent) {
+    return backend.uploadFile(blob);
+  }
+
+  const key = `${backend.id}:${await hashBlob(blob)}`;
+  const pending = pendingUploads.get(key);
+  if (pending) {
+    const uri = await pending;
+    countHit(blob);
+    return uri;
+  }
+
+  const upload = lookupOrUpload(backend, key, blob);
+  pendingUploads.set(key, upload);
+  try {
+    return await upload;
+  } finally {
+    pendingUploads.delete(key);
+  }
+};
+
+export const describeUploadCacheStats = (): string =>
+  `${stats.hits} cache hits, ${(stats.bytesSaved / 1024 / 1024).toFixed(
+    1
+  )} MB saved`;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "@jest/globals";
+import { ParseMessageText, TGExportMessageData } from "./contract";
+
+const message = (
+  text_entities: { type: string; text: string }[]
+): TGExportMessageData =>
+  ({
+    id: 1,
+    type: "message",
+    date: "2022-10-01T00:00:00",
+    date_unixtime: "1664582400",
+    text: text_entities,
+    text_entities,
+  } as TGExportMessageData);
+
+describe("ParseMessageText", () => {
+  it("escapes plain text", () => {
+    expect(
+      ParseMessageText(message([{ type: "plain", text: "1. *a* #b" }]))
+    ).toBe("1\\. \\*a\\* #b");
+  });
+
+  it("wraps emphasis in markers", () => {
+    expect(
+      ParseMessageText(
+        message([
+          { type: "plain", text: "a " },
+          { type: "bold", text: "b " },
+          { type: "italic", text: "c" },
+          { type: "plain", text: " " },
+          { type: "strikethrough", text: "d" },
+        ])
+      )
+    ).toBe("a **b** *c* ~~d~~");
+  });
+
+  it("uses tags for emphasis next to punctuation", () => {
+    expect(
+      ParseMessageText(
+        message([
+          { type: "plain", text: "see" },
+          { type: "bold", text: "(1)" },
+          { type: "plain", text: "now " },
+          { type: "bold", text: "bold:" },
+          { type: "plain", text: "x " },
+          { type: "strikethrough", text: "!" },
+          { type: "plain", text: "y" },
+        ])
+      )
+    ).toBe("see<b>(1)</b>now <b>bold:</b>x <s>!</s>y");
+  });
+
+  it("uses tags for emphasis right after other markers", () => {
+    expect(
+      ParseMessageText(
+        message([
+          { type: "bold", text: "a" },
+          { type: "italic", text: "b" },
+        ])
+      )
+    ).toBe("**a**<i>b</i>");
+  });
+
+  it("keeps markers off whitespace and line breaks", () => {
+    expect(
+      ParseMessageText(
+        message([
+          { type: "plain", text: "a" },
+          { type: "bold", text: " b\nc " },
+          { type: "plain", text: "d" },
+        ])
+      )
+    ).toBe("a **b**\n**c** d");
+  });
+
+  it("strips hashtags along with the spaces before them", () => {
+    expect(
+      ParseMessageText(
+        message([
+          { type: "plain", text: "a " },
+          { type: "hashtag", text: "#b" },
+          { type: "plain", text: "\nc" },
+        ]),
+        { stripHashtags: true }
+      )
+    ).toBe("a\nc");
+  });
+});
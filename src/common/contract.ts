@@ -1,8 +1,25 @@
 import { Contract, NoteMetadataAttachmentBase } from "crossbell.js";
 import type { NoteMetadata } from "crossbell.js";
 import { ethers } from "ethers";
-import { uploadFile, uploadJson } from "./ipfs";
-import { Photo } from "@mui/icons-material";
+import { uploadJson } from "./ipfs";
+import { cachedUploadFile } from "./cache";
+import {
+  CollectAttachments,
+  PendingAttachment,
+  RenderMediaContent,
+} from "./media";
+import { GetMessageTags, TagRule } from "./tags";
+import { ApplyContentRules, ContentRule } from "./rules";
+import { RenderServiceMessage } from "./service";
+import type { ChatProgress, ContentOverride } from "./session";
+import {
+  escapeMarkdown,
+  longestBacktickRun,
+  renderBlock,
+  renderInlineCode,
+  renderLink,
+  wrapInline,
+} from "./markdown";
 
 let gContract: Contract | null = null;
 let signerAddress: string = "";
@@ -73,6 +90,37 @@ export const getSignerBalance = async (): Promise<number> => {
   }
 };
 
+// Same as crossbell.js posts with, no link or mint modules
+const PostNoteData = (contentUri: string) => ({
+  characterId,
+  contentUri,
+  linkModule: ethers.constants.AddressZero,
+  linkModuleInitData: ethers.constants.AddressZero,
+  mintModule: ethers.constants.AddressZero,
+  mintModuleInitData: ethers.constants.AddressZero,
+  locked: false,
+});
+
+// Fee of posting a sample note at the current gas price, in wei like
+// getSignerBalance. Needs the signer to be an operator of the character.
+export const estimatePostNoteCost = async (): Promise<number> => {
+  if (gContract === null) {
+    throw new Error("Contract not initialized.");
+  }
+
+  const contract = gContract.contract;
+  const [gas, gasPrice] = await Promise.all([
+    contract.estimateGas.postNote(
+      // Length of a CIDv1 note URI, the content doesn't matter
+      PostNoteData(
+        "ipfs://bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku"
+      )
+    ),
+    contract.signer.getGasPrice(),
+  ]);
+  return parseInt(gas.mul(gasPrice).toString());
+};
+
 export const checkOperator = async (): Promise<boolean> => {
   if (gContract === null) {
     throw new Error("Contract not initialized.");
@@ -84,7 +132,6 @@ export const checkOperator = async (): Promise<boolean> => {
   ).then((res) => res.json());
   if (signerAddress.toLowerCase() === characterData.owner?.toLowerCase()) {
     // Is owner
-    console.log("Signer is owner");
     return true;
   }
 
@@ -95,8 +142,6 @@ export const checkOperator = async (): Promise<boolean> => {
       signerAddress
     );
 
-  console.log("Signer permissions: ", permissions);
-
   return permissions.includes("POST_NOTE");
 };
 
@@ -128,10 +173,59 @@ export const removeOperator = async () => {
   );
 };
 
+export type TextEntityType =
+  | "plain"
+  | "bold"
+  | "italic"
+  | "underline"
+  | "strikethrough"
+  | "spoiler"
+  | "code"
+  | "pre"
+  | "blockquote"
+  | "link"
+  | "text_link"
+  | "mention"
+  | "mention_name"
+  | "hashtag"
+  | "cashtag"
+  | "bot_command"
+  | "email"
+  | "phone"
+  | "bank_card"
+  | "custom_emoji"
+  | "unknown";
+
 export interface TextEntity {
-  type: string; // plain / bold / spoiler / italic / strikethrough / link / text_link
+  type: TextEntityType;
   text: string;
-  href?: string; // Only type === link
+  href?: string; // Only type === text_link
+  language?: string; // Only type === pre
+  user_id?: number; // Only type === mention_name
+  document_id?: string; // Only type === custom_emoji
+  collapsed?: boolean; // Only type === blockquote
+}
+
+export interface Poll {
+  question: string;
+  closed: boolean;
+  total_voters: number;
+  answers: {
+    text: string;
+    voters: number;
+    chosen: boolean;
+  }[];
+}
+
+export interface LocationInformation {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ContactInformation {
+  first_name?: string;
+  last_name?: string;
+  phone_number?: string;
 }
 
 interface Photo {
@@ -155,6 +249,23 @@ interface TGExportMessageDataWithoutPhoto extends Text {
   action?: string;
   title?: string;
 
+  // Companion fields of service actions
+  members?: (string | null)[];
+  inviter?: string;
+  message_id?: number; // Only action === pin_message
+  period?: number;
+  emoticon?: string;
+  discard_reason?: string;
+  schedule_date?: number;
+  new_title?: string;
+  to?: string;
+  distance?: number;
+  score?: number;
+  amount?: number;
+  currency?: string;
+  months?: number;
+  boosts?: number;
+
   from?: string;
   from_id?: string;
 
@@ -165,115 +276,610 @@ interface TGExportMessageDataWithoutPhoto extends Text {
   width?: number;
   height?: number;
 
-  media_type?: string; // video_file / voice_message
+  media_type?: string; // sticker / voice_message / video_message / animation / video_file / audio_file
   duration_seconds?: number;
+  sticker_emoji?: string;
+  performer?: string; // Only media_type === audio_file
+
+  poll?: Poll;
+  location_information?: LocationInformation;
+  place_name?: string;
+  address?: string;
+  live_location_period_seconds?: number;
+  contact_information?: ContactInformation;
+  contact_vcard?: string;
+
+  reply_to_message_id?: number;
+
+  forwarded_from?: string;
+  saved_from?: string;
 }
 
 export interface TGExportMessageData
   extends TGExportMessageDataWithoutPhoto,
     Photo {}
 
+// File of a message aggregated into another one
+export type MediaFile = Pick<
+  TGExportMessageDataWithoutPhoto,
+  | "file"
+  | "thumbnail"
+  | "mime_type"
+  | "width"
+  | "height"
+  | "media_type"
+  | "duration_seconds"
+>;
+
 export interface TGExportMessageDataWithPhotos
   extends TGExportMessageDataWithoutPhoto {
   photos?: Photo[];
+  // Files of the aggregated messages, besides its own
+  files?: MediaFile[];
+  // IDs of all messages aggregated into it, its own first
+  aggregated_ids?: number[];
+}
+
+// Options shaping the note, a subset of Setting
+export interface NoteOptions {
+  // Hashtags are kept as note tags anyway
+  stripHashtags: boolean;
+  tagRules: TagRule[];
+  // Prepended to forwarded messages, {source} is replaced. Empty to disable.
+  forwardAttribution: string;
+  contentRules: ContentRule[];
 }
 
-export const ParseMessageText = (message: TGExportMessageData): string => {
+export const ParseMessageText = (
+  message: TGExportMessageData,
+  options?: Pick<NoteOptions, "stripHashtags">
+): string => {
   if (message.type === "service") {
-    return message.action || "";
+    return RenderServiceMessage(message);
   }
   // Prepare text
   let content = "";
-  for (const entity of message.text_entities) {
+  message.text_entities.forEach((entity, index) => {
+    const text = entity.text;
+    if (!text) return;
+    // Tags instead of markers that would be plain text next to its neighbours
+    const emphasis = (marker: string, tag: string) =>
+      wrapInline(escapeMarkdown(text), marker, marker, {
+        open: `<${tag}>`,
+        close: `</${tag}>`,
+        before: content.slice(-1),
+        after: message.text_entities
+          .slice(index + 1)
+          .map((next) => next.text)
+          .join("")
+          .slice(0, 1),
+      });
     switch (entity.type) {
-      // case "plain":
-      //   content += entity.text;
-      //   break;
       case "bold":
-        content += `**${entity.text}**`;
+        content += emphasis("**", "b");
         break;
       case "italic":
-        content += `*${entity.text}*`;
+        content += emphasis("*", "i");
+        break;
+      case "underline":
+        content += wrapInline(escapeMarkdown(text), "<u>", "</u>");
         break;
       case "strikethrough":
-        content += `~~${entity.text}~~`;
+        content += emphasis("~~", "s");
+        break;
+      case "spoiler":
+        content += wrapInline(
+          escapeMarkdown(text),
+          '<span class="spoiler">',
+          "</span>"
+        );
+        break;
+      case "code":
+        content += renderInlineCode(text);
+        break;
+      case "pre": {
+        const fence = "`".repeat(Math.max(3, longestBacktickRun(text) + 1));
+        content += renderBlock(
+          content,
+          `${fence}${entity.language || ""}\n${text.replace(
+            /\n$/,
+            ""
+          )}\n${fence}`
+        );
+        break;
+      }
+      case "blockquote":
+        content += renderBlock(
+          content,
+          text
+            .replace(/\n$/, "")
+            .split("\n")
+            .map((line) => `> ${escapeMarkdown(line)}`.trimEnd())
+            .join("\n")
+        );
         break;
       case "link":
-        content += `[${entity.text}](${entity.text})`;
+        content += renderLink(
+          text,
+          /^[a-z][a-z\d+.-]*:/i.test(text) ? text : `https://${text}`
+        );
         break;
       case "text_link":
-        content += `[${entity.text}](${entity.href})`;
+        content += renderLink(text, entity.href || "");
+        break;
+      case "mention":
+        content += renderLink(text, `https://t.me/${text.replace(/^@/, "")}`);
         break;
+      case "email":
+        content += renderLink(text, `mailto:${text}`);
+        break;
+      case "phone":
+        content += renderLink(text, `tel:${text.replace(/[^\d+]/g, "")}`);
+        break;
+      case "hashtag":
+        if (options?.stripHashtags) {
+          // Following text brings its own space
+          content = content.replace(/[ \t]+$/, "");
+        } else {
+          content += escapeMarkdown(text);
+        }
+        break;
+      // plain / mention_name / cashtag / bot_command / bank_card
+      // custom_emoji (text is its fallback emoji) / unknown
       default:
-        content += entity.text;
+        content += escapeMarkdown(text);
         break;
     }
+  });
+
+  if (options?.stripHashtags) {
+    // Tidy up spaces and lines the hashtags left behind
+    content = content.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n");
   }
 
-  return content;
+  return content.trimEnd();
 };
 
-export const signerPostNote = async (
-  message: TGExportMessageDataWithPhotos,
+export const GetForwardSource = (
+  message: TGExportMessageData
+): string | undefined => message.forwarded_from || message.saved_from;
+
+export const GetMessageLink = (
+  channelName: string,
+  message: TGExportMessageData
+): string => `https://t.me/${channelName}/${message.id}`;
+
+export interface ReplyTarget {
+  id: number;
+  // Note ID of the replied-to message, if it has been migrated
+  noteId?: number;
+  // Replied-to message, quoted when it hasn't been migrated
+  message?: TGExportMessageData;
+}
+
+export const GetNoteLink = (characterId: number, noteId: number): string =>
+  `https://crossbell.io/notes/${characterId}-${noteId}`;
+
+// Undefined if the message hasn't been migrated
+export const GetLedgerNoteLink = (
+  ledger: ChatProgress["ledger"] | undefined,
+  messageId: number
+): string | undefined => {
+  const entry = ledger?.[messageId];
+  return entry?.noteId !== undefined
+    ? GetNoteLink(entry.characterId ?? characterId, entry.noteId)
+    : undefined;
+};
+
+// First line of the message text, without any formatting
+const GetTextExcerpt = (
+  message: TGExportMessageData,
+  maxLength: number = 50
+): string => {
+  const line = message.text_entities
+    .map((entity) => entity.text)
+    .join("")
+    .trim()
+    .split("\n")[0];
+  return line.length > maxLength ? `${line.slice(0, maxLength)}…` : line;
+};
+
+// Service message with the pinned message resolved, for pin_message
+export const ParseServiceMessage = (
+  message: TGExportMessageData,
+  channelName: string,
+  pinned?: ReplyTarget
+): string => {
+  if (!pinned) {
+    return RenderServiceMessage(message);
+  }
+
+  return RenderServiceMessage(message, {
+    text: pinned.message ? GetTextExcerpt(pinned.message) : undefined,
+    link:
+      pinned.noteId !== undefined
+        ? GetNoteLink(characterId, pinned.noteId)
+        : channelName
+        ? `https://t.me/${channelName}/${pinned.id}`
+        : undefined,
+  });
+};
+
+const QuoteReplyTarget = (
+  replyTo: ReplyTarget,
   channelName: string
-) => {
-  if (gContract === null) {
-    throw new Error("Contract not initialized.");
+): string => {
+  const link = channelName
+    ? `[original message](https://t.me/${channelName}/${replyTo.id})`
+    : `message #${replyTo.id}`;
+  if (!replyTo.message) {
+    return `> In reply to ${link}\n\n`;
   }
 
-  // Upload medias to IPFS
-  const mediaAttachments: NoteMetadataAttachmentBase<"address">[] = [];
-  if (!!message.photos) {
-    // Is photo
-    for (const photo of message.photos) {
-      if (!photo.photo) break;
-      const mediaFileName = `${photo.photo.split("/").pop()}`;
-      const result = await fetch(photo.photo);
-      const blob = await result.blob();
-      const ipfsUri = await uploadFile(blob);
-      mediaAttachments.push({
-        name: mediaFileName,
-        address: ipfsUri,
-        mime_type: blob.type,
-        size_in_bytes: blob.size,
-        alt: mediaFileName,
-        width: photo.width,
-        height: photo.height,
-      });
-    }
+  const quoted = ParseMessageText(replyTo.message)
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+  return `${quoted}\n>\n> — ${link}\n\n`;
+};
+
+// The text of the note as generated, what an override replaces
+export const ComposeNoteText = (
+  message: TGExportMessageDataWithPhotos,
+  channelName: string,
+  options: NoteOptions,
+  pinned?: ReplyTarget,
+  ledger?: ChatProgress["ledger"]
+): string =>
+  message.type === "service"
+    ? ParseServiceMessage(message, channelName, pinned)
+    : ApplyContentRules(
+        ParseMessageText(message, options),
+        options.contentRules,
+        {
+          message,
+          channelName,
+          getNoteLink: (messageId) => GetLedgerNoteLink(ledger, messageId),
+        }
+      );
+
+// Everything the note says, edited text included
+export const ComposeNoteContent = (
+  message: TGExportMessageDataWithPhotos,
+  channelName: string,
+  options: NoteOptions,
+  replyTo?: ReplyTarget,
+  pinned?: ReplyTarget,
+  override?: ContentOverride,
+  ledger?: ChatProgress["ledger"]
+): string => {
+  // Edited content is used as is
+  const text = override
+    ? override.content
+    : ComposeNoteText(message, channelName, options, pinned, ledger);
+  if (message.type === "service") {
+    return text;
   }
 
-  if (!!message.file) {
-    // Has attachment
-    const mediaFileName = `${message.file.split("/").pop()}`;
-    const result = await fetch(message.file);
-    const blob = await result.blob();
-    const ipfsUri = await uploadFile(blob);
-    mediaAttachments.push({
-      name: mediaFileName,
-      address: ipfsUri,
-      mime_type: message.mime_type || blob.type,
-      size_in_bytes: blob.size,
-      alt: mediaFileName,
-      width: message.width,
-      height: message.height,
-    });
+  let content = "";
+
+  const forwardSource = GetForwardSource(message);
+  if (forwardSource && options.forwardAttribution) {
+    // A function, so "$&" and such in names are kept as they are
+    content += `${options.forwardAttribution.replace(/{source}/g, () =>
+      escapeMarkdown(forwardSource)
+    )}\n\n`;
   }
 
-  // Upload note
+  if (replyTo && replyTo.noteId === undefined) {
+    content += QuoteReplyTarget(replyTo, channelName);
+  }
+
+  const mediaContent = RenderMediaContent(message);
+  return content + [mediaContent, text].filter((part) => !!part).join("\n\n");
+};
+
+export interface PostedNote {
+  characterId: number;
+  noteId: number;
+  transactionHash: string;
+  noteUri: string;
+  attachmentUris: string[];
+}
+
+// Look for a note posted by an interrupted run but never recorded
+export const findPostedNote = async (
+  externalUrl: string
+): Promise<PostedNote | undefined> => {
+  const res = await fetch(
+    `https://indexer.crossbell.io/v1/notes?characterId=${characterId}&externalUrls=${encodeURIComponent(
+      externalUrl
+    )}&limit=1`
+  ).then((res) => res.json());
+
+  const note = res.list?.[0];
+  if (!note) {
+    return undefined;
+  }
+
+  return {
+    characterId: note.characterId,
+    noteId: note.noteId,
+    transactionHash: note.transactionHash,
+    noteUri: note.uri,
+    attachmentUris: (note.metadata?.content?.attachments || [])
+      .map((attachment: any) => attachment.address)
+      .filter((address: string | undefined) => !!address),
+  };
+};
+
+const AttachmentMetadata = (
+  attachment: PendingAttachment,
+  address?: string
+): NoteMetadataAttachmentBase<"address"> => ({
+  name: attachment.name,
+  address,
+  mime_type: attachment.mime_type,
+  size_in_bytes: attachment.blob.size,
+  alt: attachment.alt,
+  width: attachment.width,
+  height: attachment.height,
+});
+
+export interface PreparedNote {
+  // Attachments have no address until uploaded
+  note: NoteMetadata;
+  attachments: PendingAttachment[];
+}
+
+// Removed ones are left out, missing ones too
+const ApplyAttachmentOverride = (
+  attachments: PendingAttachment[],
+  override?: ContentOverride
+): PendingAttachment[] =>
+  override?.attachments
+    ? override.attachments
+        .map((source) =>
+          attachments.find((attachment) => attachment.source === source)
+        )
+        .filter((attachment): attachment is PendingAttachment => !!attachment)
+    : attachments;
+
+// Everything about the note except uploading, shared with dry run
+export const PrepareNote = async (
+  message: TGExportMessageDataWithPhotos,
+  channelName: string,
+  options: NoteOptions,
+  replyTo?: ReplyTarget,
+  pinned?: ReplyTarget,
+  override?: ContentOverride,
+  ledger?: ChatProgress["ledger"],
+  missingFiles?: string[]
+): Promise<PreparedNote> => {
+  const attachments = ApplyAttachmentOverride(
+    await CollectAttachments(message, missingFiles),
+    override
+  );
+
   const note: NoteMetadata = {
     type: "note",
     sources: ["T2C", "Telegram"],
-    content: ParseMessageText(message),
-    attachments: mediaAttachments,
+    content: ComposeNoteContent(
+      message,
+      channelName,
+      options,
+      replyTo,
+      pinned,
+      override,
+      ledger
+    ),
+    tags: GetMessageTags(message, options.tagRules),
+    attachments: attachments.map((attachment) =>
+      AttachmentMetadata(attachment)
+    ),
     date_published: new Date(message.date).toISOString(),
-    external_urls: channelName
-      ? [`https://t.me/${channelName}/${message.id}`]
-      : [],
+    external_urls: channelName ? [GetMessageLink(channelName, message)] : [],
+    attributes: [
+      ...(message.forwarded_from
+        ? [{ trait_type: "forwarded_from", value: message.forwarded_from }]
+        : []),
+      ...(message.saved_from
+        ? [{ trait_type: "saved_from", value: message.saved_from }]
+        : []),
+    ],
   };
 
+  return { note, attachments };
+};
+
+export interface UploadedNote {
+  noteUri: string;
+  attachmentUris: string[];
+  // Posted as a comment of this note
+  replyToNoteId?: number;
+}
+
+// Medias and metadata go to storage, nothing on chain yet
+export const uploadNote = async (
+  message: TGExportMessageDataWithPhotos,
+  channelName: string,
+  options: NoteOptions,
+  replyTo?: ReplyTarget,
+  pinned?: ReplyTarget,
+  override?: ContentOverride,
+  ledger?: ChatProgress["ledger"]
+): Promise<UploadedNote> => {
+  const { note, attachments } = await PrepareNote(
+    message,
+    channelName,
+    options,
+    replyTo,
+    pinned,
+    override,
+    ledger
+  );
+
+  // Upload medias to IPFS
+  const mediaAttachments: NoteMetadataAttachmentBase<"address">[] = [];
+  for (const attachment of attachments) {
+    const ipfsUri = await cachedUploadFile(attachment.blob);
+    mediaAttachments.push(AttachmentMetadata(attachment, ipfsUri));
+  }
+  note.attachments = mediaAttachments;
+
+  // Upload note
   const noteIPFSUri = await uploadJson(note);
 
-  // Push on chain
-  await gContract.postNote(characterId, noteIPFSUri);
+  return {
+    noteUri: noteIPFSUri,
+    attachmentUris: mediaAttachments.map((attachment) => attachment.address!),
+    replyToNoteId: replyTo?.noteId,
+  };
+};
+
+export const signerPostUploadedNote = async (
+  uploadedNote: UploadedNote
+): Promise<PostedNote> => {
+  if (gContract === null) {
+    throw new Error("Contract not initialized.");
+  }
+
+  // Push on chain, replies to migrated messages become comments
+  const { data, transactionHash } =
+    uploadedNote.replyToNoteId !== undefined
+      ? await gContract.postNoteForNote(
+          characterId,
+          uploadedNote.noteUri,
+          characterId,
+          uploadedNote.replyToNoteId
+        )
+      : await gContract.postNote(characterId, uploadedNote.noteUri);
+
+  return {
+    characterId,
+    noteId: data.noteId,
+    transactionHash,
+    noteUri: uploadedNote.noteUri,
+    attachmentUris: uploadedNote.attachmentUris,
+  };
+};
+
+// Left unsent after an earlier note failed to send, nothing went wrong with
+// this one
+export class NoteNotSentError extends Error {
+  cause: any;
+
+  constructor(cause: any) {
+    super(`Not sent as an earlier note in flight failed: ${cause?.message}`);
+    this.name = "NoteNotSentError";
+    this.cause = cause;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, NoteNotSentError.prototype);
+  }
+}
+
+const SettledResult = <T>(
+  promise: Promise<T>
+): Promise<PromiseSettledResult<T>> =>
+  promise.then(
+    (value) => ({ status: "fulfilled", value }),
+    (reason) => ({ status: "rejected", reason })
+  );
+
+// Notes sent back to back with consecutive nonces, without waiting for each
+// to be mined, then waited together. Posting several notes in one transaction
+// isn't possible with crossbell.js 0.16: the contract has no batch posting
+// and no multicall, so every note is still a transaction of its own.
+export const signerPostUploadedNotes = async (
+  uploadedNotes: UploadedNote[]
+): Promise<PromiseSettledResult<PostedNote>[]> => {
+  if (gContract === null) {
+    throw new Error("Contract not initialized.");
+  }
+
+  const contract = gContract.contract;
+  let nonce = await contract.signer.getTransactionCount("pending");
+  let sendError: any = null;
+  const results: Promise<PromiseSettledResult<PostedNote>>[] = [];
+  for (const uploadedNote of uploadedNotes) {
+    if (sendError) {
+      // Later nonces would be stuck behind the missing one
+      results.push(
+        SettledResult(Promise.reject(new NoteNotSentError(sendError)))
+      );
+      continue;
+    }
+
+    const postNoteData = PostNoteData(uploadedNote.noteUri);
+    try {
+      const tx =
+        uploadedNote.replyToNoteId !== undefined
+          ? await contract.postNote4Note(
+              postNoteData,
+              { characterId, noteId: uploadedNote.replyToNoteId },
+              { nonce }
+            )
+          : await contract.postNote(postNoteData, { nonce });
+      nonce++;
+      results.push(
+        SettledResult(
+          tx.wait().then((receipt) => {
+            const event = receipt.logs
+              .map((log) => {
+                try {
+                  return contract.interface.parseLog(log);
+                } catch (e) {
+                  // Not from this contract
+                  return undefined;
+                }
+              })
+              .find((parsed) => parsed?.name === "PostNote");
+            if (!event) {
+              throw new Error(
+                `No note posted in transaction ${receipt.transactionHash}`
+              );
+            }
+            return {
+              characterId,
+              noteId: event.args.noteId.toNumber(),
+              transactionHash: receipt.transactionHash,
+              noteUri: uploadedNote.noteUri,
+              attachmentUris: uploadedNote.attachmentUris,
+            };
+          })
+        )
+      );
+    } catch (e: any) {
+      sendError = e;
+      results.push(SettledResult(Promise.reject(e)));
+    }
+  }
+
+  return Promise.all(results);
+};
+
+export const signerPostNote = async (
+  message: TGExportMessageDataWithPhotos,
+  channelName: string,
+  options: NoteOptions,
+  replyTo?: ReplyTarget,
+  pinned?: ReplyTarget,
+  override?: ContentOverride,
+  ledger?: ChatProgress["ledger"]
+): Promise<PostedNote> => {
+  if (gContract === null) {
+    throw new Error("Contract not initialized.");
+  }
+
+  return signerPostUploadedNote(
+    await uploadNote(
+      message,
+      channelName,
+      options,
+      replyTo,
+      pinned,
+      override,
+      ledger
+    )
+  );
 };
@@ -0,0 +1,77 @@
+import {
+  estimatePostNoteCost,
+  getSignerAddress,
+  getSignerBalance,
+} from "./contract";
+
+// Gas price changes, and replies or longer URIs cost a bit more
+export const costMargin = 1.5;
+// Notes posted before the balance is checked again
+export const balanceCheckInterval = 10;
+
+// Amounts in $CSB
+export interface CostEstimate {
+  noteCount: number;
+  // Margin included
+  perNote: number;
+  total: number;
+  balance: number;
+  isSufficient: boolean;
+}
+
+const toCSB = (wei: number): number => wei / Math.pow(10, 18);
+
+export const formatCSB = (csb: number): string =>
+  `${Number(csb.toPrecision(3))} $CSB`;
+
+export const getFaucetLink = (address: string = getSignerAddress()): string =>
+  `https://faucet.crossbell.io/?address=${address}`;
+
+export const estimateMigrationCost = async (
+  noteCount: number
+): Promise<CostEstimate> => {
+  const [perNoteCost, balance] = await Promise.all([
+    estimatePostNoteCost(),
+    getSignerBalance(),
+  ]);
+  const perNote = toCSB(perNoteCost) * costMargin;
+  const total = perNote * noteCount;
+  return {
+    noteCount,
+    perNote,
+    total,
+    balance: toCSB(balance),
+    isSufficient: toCSB(balance) >= total,
+  };
+};
+
+export const describeCostEstimate = (estimate: CostEstimate): string =>
+  `About ${formatCSB(estimate.total)} for ${estimate.noteCount} notes (${
+    (costMargin - 1) * 100
+  }% margin included), the signer has ${formatCSB(estimate.balance)}`;
+
+// Checks every balanceCheckInterval notes whether the balance still covers
+// the remaining ones. When it doesn't, onLowBalance is awaited to wait for a
+// top up, until it does.
+export const createBalanceGuard = (
+  perNote: number,
+  onLowBalance: (balance: number, required: number) => Promise<void>
+) => {
+  let checkedAtRemaining: number | undefined;
+
+  return async (remaining: number) => {
+    if (
+      checkedAtRemaining !== undefined &&
+      checkedAtRemaining - remaining < balanceCheckInterval
+    ) {
+      return;
+    }
+
+    let balance = toCSB(await getSignerBalance());
+    while (balance < perNote * remaining) {
+      await onLowBalance(balance, perNote * remaining);
+      balance = toCSB(await getSignerBalance());
+    }
+    checkedAtRemaining = remaining;
+  };
+};
@@ -0,0 +1,38 @@
+// IndexedDB shared by the upload cache and progress, a store for each
+const dbName = "telegram2crossbell";
+const dbVersion = 2;
+const storeNames = ["uploads", "progress"];
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once everything requested in it is written
+export const promisifyTransaction = (
+  transaction: IDBTransaction
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (!db) {
+    const request = indexedDB.open(dbName, dbVersion);
+    request.onupgradeneeded = () => {
+      // Stores added in later versions
+      for (const name of storeNames) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      }
+    };
+    db = promisify(request);
+  }
+  return db;
+};
@@ -0,0 +1,12 @@
+export const downloadFile = (
+  fileName: string,
+  content: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,157 @@
+import type { NoteMetadata } from "crossbell.js";
+import { PrepareNote, TGExportMessageDataWithPhotos } from "./contract";
+import {
+  ExportChat,
+  getChatChannelName,
+  getMessageIds,
+  getPinnedTarget,
+  getReplyTarget,
+  isAggregateMigrated,
+} from "./messages";
+import {
+  ChatProgress,
+  getChatProgress,
+  getMessageOverride,
+  Setting,
+} from "./session";
+
+// Larger uploads are likely to be rejected by the IPFS relay
+export const attachmentSizeLimit = 20 * 1024 * 1024;
+
+export interface DryRunUpload {
+  name: string;
+  size: number; // In bytes
+  mimeType: string;
+}
+
+export interface DryRunNote {
+  chatId: number;
+  messageId: number;
+  // Placeholder until posted, negative so it isn't taken for a real one
+  noteId: number;
+  // Posted as a comment of this note instead of a new one
+  commentOn?: number;
+  note: NoteMetadata;
+  // Attachments first, then the note itself
+  uploads: DryRunUpload[];
+  warnings: string[];
+}
+
+export interface DryRunBundle {
+  createdAt: string; // ISO 8601
+  characterHandle: string;
+  notes: DryRunNote[];
+  uploadCount: number;
+  uploadBytes: number;
+  warningCount: number;
+}
+
+// Notes planned so far, for replies, pins and links to the ones before
+export interface DryRunPlan {
+  // Placeholder ledger entries, keyed by chat ID
+  chats: { [chatId: string]: ChatProgress["ledger"] };
+  noteCount: number;
+}
+
+export const createDryRunPlan = (): DryRunPlan => ({ chats: {}, noteCount: 0 });
+
+const formatSize = (bytes: number): string =>
+  `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Build the note as migrateMessages would, without uploading or posting
+export const dryRunMessage = async (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos,
+  settings: Setting,
+  plan: DryRunPlan
+): Promise<DryRunNote | undefined> => {
+  const chatProgress = getChatProgress(chat.id);
+  if (isAggregateMigrated(chatProgress, message)) {
+    return undefined;
+  }
+
+  if (!plan.chats[chat.id]) {
+    plan.chats[chat.id] = {};
+  }
+  const planned = plan.chats[chat.id];
+  const plannedProgress: ChatProgress = {
+    ...chatProgress,
+    ledger: { ...chatProgress.ledger, ...planned },
+  };
+  const replyTo = getReplyTarget(chat, message, plannedProgress);
+  const missingFiles: string[] = [];
+  const { note, attachments } = await PrepareNote(
+    message,
+    getChatChannelName(chat, settings),
+    settings,
+    replyTo,
+    getPinnedTarget(chat, message, plannedProgress),
+    getMessageOverride(chatProgress, message.id),
+    plannedProgress.ledger,
+    missingFiles
+  );
+
+  plan.noteCount++;
+  const noteId = -plan.noteCount;
+  for (const messageId of getMessageIds(message)) {
+    planned[messageId] = { messageId, noteId };
+  }
+
+  const warnings = missingFiles.map(
+    (path) => `Cannot find ${path} in the selected export`
+  );
+  if (!note.content?.trim() && attachments.length === 0) {
+    warnings.push("Note is empty");
+  }
+  for (const attachment of attachments) {
+    if (attachment.blob.size > attachmentSizeLimit) {
+      warnings.push(
+        `${attachment.name} is ${formatSize(
+          attachment.blob.size
+        )}, larger than ${formatSize(attachmentSizeLimit)}`
+      );
+    }
+  }
+
+  const noteJson = JSON.stringify(note);
+  return {
+    chatId: chat.id,
+    messageId: message.id,
+    noteId,
+    commentOn: replyTo?.noteId,
+    note,
+    uploads: [
+      ...attachments.map((attachment) => ({
+        name: attachment.name,
+        size: attachment.blob.size,
+        mimeType: attachment.mime_type,
+      })),
+      {
+        name: `${message.id}.json`,
+        size: new Blob([noteJson]).size,
+        mimeType: "application/json",
+      },
+    ],
+    warnings,
+  };
+};
+
+export const createDryRunBundle = (
+  notes: DryRunNote[],
+  settings: Setting
+): DryRunBundle => {
+  const uploads = notes.flatMap((note) => note.uploads);
+  return {
+    createdAt: new Date().toISOString(),
+    characterHandle: settings.characterHandle,
+    notes,
+    uploadCount: uploads.length,
+    uploadBytes: uploads.reduce((sum, upload) => sum + upload.size, 0),
+    warningCount: notes.reduce((sum, note) => sum + note.warnings.length, 0),
+  };
+};
+
+export const describeDryRunBundle = (bundle: DryRunBundle): string =>
+  `${bundle.notes.length} notes, ${bundle.uploadCount} uploads (${formatSize(
+    bundle.uploadBytes
+  )}), ${bundle.warningCount} warnings`;
@@ -0,0 +1,213 @@
+import JSZip from "jszip";
+
+export interface ExportEntry {
+  // Path relative to the picked root, separated by "/"
+  path: string;
+  load: () => Promise<Blob>;
+}
+
+interface LoadedExport {
+  result: any;
+  files: Map<string, () => Promise<Blob>>;
+}
+
+const resultFileName = "result.json";
+
+const mimeTypes: { [ext: string]: string } = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  m4a: "audio/mp4",
+  wav: "audio/wav",
+  pdf: "application/pdf",
+  json: "application/json",
+  txt: "text/plain",
+};
+
+let currentExport: LoadedExport | null = null;
+let objectUrls = new Map<string, string>();
+
+const normalizePath = (path: string) =>
+  path.replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "");
+
+export const guessMimeType = (path: string): string => {
+  const ext = path.split(".").pop()?.toLowerCase() || "";
+  return mimeTypes[ext] || "application/octet-stream";
+};
+
+export const loadExportFromEntries = async (entries: ExportEntry[]) => {
+  // Find the result.json closest to the picked root
+  const resultEntry = entries
+    .map((entry) => ({ ...entry, path: normalizePath(entry.path) }))
+    .filter(
+      (entry) =>
+        entry.path === resultFileName ||
+        entry.path.endsWith(`/${resultFileName}`)
+    )
+    .sort((a, b) => a.path.length - b.path.length)[0];
+  if (!resultEntry) {
+    throw new Error(`Cannot find ${resultFileName} in the selected export`);
+  }
+  const basePath = resultEntry.path.slice(
+    0,
+    resultEntry.path.length - resultFileName.length
+  );
+
+  const result = JSON.parse(await (await resultEntry.load()).text());
+
+  const files = new Map<string, () => Promise<Blob>>();
+  for (const entry of entries) {
+    const path = normalizePath(entry.path);
+    if (path.startsWith(basePath)) {
+      files.set(path.slice(basePath.length), entry.load);
+    }
+  }
+
+  // Release previous selection
+  objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls = new Map();
+
+  currentExport = { result, files };
+};
+
+export const loadExportFromZip = async (zipFile: Blob) => {
+  const zip = await JSZip.loadAsync(zipFile);
+  const entries: ExportEntry[] = [];
+  zip.forEach((path, file) => {
+    if (!file.dir) {
+      entries.push({ path, load: () => file.async("blob") });
+    }
+  });
+  await loadExportFromEntries(entries);
+};
+
+const isZip = (file: File) =>
+  file.type === "application/zip" ||
+  file.type === "application/x-zip-compressed" ||
+  file.name.toLowerCase().endsWith(".zip");
+
+export const loadExportFromFileList = async (fileList: FileList | File[]) => {
+  const files = Array.from(fileList);
+  if (files.length === 1 && isZip(files[0])) {
+    await loadExportFromZip(files[0]);
+    return;
+  }
+
+  await loadExportFromEntries(
+    files.map((file) => ({
+      path: file.webkitRelativePath || file.name,
+      load: async () => file,
+    }))
+  );
+};
+
+const readDirectoryEntries = (
+  reader: FileSystemDirectoryReader
+): Promise<FileSystemEntry[]> =>
+  new Promise((resolve, reject) => {
+    const result: FileSystemEntry[] = [];
+    // readEntries returns results in chunks, until an empty one
+    const readChunk = () => {
+      reader.readEntries((chunk) => {
+        if (chunk.length === 0) {
+          resolve(result);
+        } else {
+          result.push(...chunk);
+          readChunk();
+        }
+      }, reject);
+    };
+    readChunk();
+  });
+
+const collectFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    // Keep the path inside dropped directory, like webkitRelativePath
+    Object.defineProperty(file, "webkitRelativePath", {
+      value: normalizePath(entry.fullPath),
+    });
+    return [file];
+  }
+
+  const children = await readDirectoryEntries(
+    (entry as FileSystemDirectoryEntry).createReader()
+  );
+  const files: File[] = [];
+  for (const child of children) {
+    files.push(...(await collectFiles(child)));
+  }
+  return files;
+};
+
+export const loadExportFromDataTransfer = async (
+  dataTransfer: DataTransfer
+) => {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...(await collectFiles(entry)));
+  }
+  await loadExportFromFileList(files);
+};
+
+export const isExportLoaded = (): boolean => currentExport !== null;
+
+export const getExportResult = (): any => {
+  if (currentExport === null) {
+    throw new Error("Telegram export not loaded.");
+  }
+
+  return currentExport.result;
+};
+
+export const getExportFile = async (
+  path: string
+): Promise<Blob | undefined> => {
+  if (currentExport === null) {
+    throw new Error("Telegram export not loaded.");
+  }
+
+  const load = currentExport.files.get(normalizePath(path));
+  if (!load) {
+    return undefined;
+  }
+
+  const blob = await load();
+  if (blob.type) {
+    return blob;
+  }
+  // Zip entries come without a type
+  return new Blob([blob], { type: guessMimeType(path) });
+};
+
+export const getExportFileUrl = async (
+  path: string
+): Promise<string | undefined> => {
+  const cached = objectUrls.get(path);
+  if (cached) {
+    return cached;
+  }
+
+  const blob = await getExportFile(path);
+  if (!blob) {
+    return undefined;
+  }
+
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(path, url);
+  return url;
+};
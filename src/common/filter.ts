@@ -0,0 +1,165 @@
+import {
+  GetForwardSource,
+  ParseMessageText,
+  TGExportMessageDataWithPhotos,
+} from "./contract";
+import { GetMessageKind, MessageKind } from "./media";
+import type { Setting } from "./session";
+
+export type MessageFilterType =
+  | "text"
+  | "photo"
+  | "file"
+  | "service"
+  | "forwarded";
+
+export const MessageFilterTypeLabels: {
+  [type in MessageFilterType]: string;
+} = {
+  text: "Text",
+  photo: "Photo",
+  file: "File",
+  service: "Service",
+  forwarded: "Forwarded",
+};
+
+export interface MessageFilter {
+  // YYYY-MM-DD, inclusive
+  fromDate: string;
+  toDate: string;
+  // Any of them, all types if empty
+  types: MessageFilterType[];
+  hasMedia: "any" | "with" | "without";
+  // Empty for anyone
+  author: string;
+  search: string;
+  isRegex: boolean;
+}
+
+export const emptyMessageFilter: MessageFilter = {
+  fromDate: "",
+  toDate: "",
+  types: [],
+  hasMedia: "any",
+  author: "",
+  search: "",
+  isRegex: false,
+};
+
+const kindTypes: { [kind in MessageKind]: MessageFilterType } = {
+  text: "text",
+  poll: "text",
+  location: "text",
+  contact: "text",
+  service: "service",
+  photo: "photo",
+  file: "file",
+  sticker: "file",
+  voice_message: "file",
+  video_message: "file",
+  animation: "file",
+  video_file: "file",
+  audio_file: "file",
+};
+
+export const getMessageFilterTypes = (
+  message: TGExportMessageDataWithPhotos
+): MessageFilterType[] => {
+  const types: MessageFilterType[] = [kindTypes[GetMessageKind(message)]];
+  if (message.files?.length && !types.includes("file")) {
+    // Aggregated from other messages
+    types.push("file");
+  }
+  if (GetForwardSource(message)) {
+    types.push("forwarded");
+  }
+  return types;
+};
+
+export const getMessageAuthor = (
+  message: TGExportMessageDataWithPhotos
+): string => message.from || message.actor || "";
+
+export const getMessageAuthors = (
+  messages: TGExportMessageDataWithPhotos[]
+): string[] =>
+  Array.from(new Set(messages.map(getMessageAuthor)))
+    .filter((author) => !!author)
+    .sort();
+
+// Parsing is the slow part of searching, it only depends on stripHashtags
+const searchTextCaches = new Map<
+  boolean,
+  WeakMap<TGExportMessageDataWithPhotos, string>
+>();
+
+const getSearchText = (
+  message: TGExportMessageDataWithPhotos,
+  settings: Setting
+): string => {
+  let cache = searchTextCaches.get(settings.stripHashtags);
+  if (!cache) {
+    cache = new WeakMap();
+    searchTextCaches.set(settings.stripHashtags, cache);
+  }
+
+  let text = cache.get(message);
+  if (text === undefined) {
+    text = ParseMessageText(message, settings);
+    cache.set(message, text);
+  }
+  return text;
+};
+
+// Throws a SyntaxError on an invalid regex, so check it first
+export const compileSearch = (filter: MessageFilter): RegExp | null => {
+  if (!filter.search) {
+    return null;
+  }
+
+  return new RegExp(
+    filter.isRegex
+      ? filter.search
+      : filter.search.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    "i"
+  );
+};
+
+export const createMessageMatcher = (
+  filter: MessageFilter,
+  settings: Setting
+): ((message: TGExportMessageDataWithPhotos) => boolean) => {
+  const search = compileSearch(filter);
+
+  return (message) => {
+    const date = message.date.slice(0, 10);
+    if (
+      (filter.fromDate && date < filter.fromDate) ||
+      (filter.toDate && date > filter.toDate)
+    ) {
+      return false;
+    }
+
+    const types = getMessageFilterTypes(message);
+    if (
+      filter.types.length > 0 &&
+      !types.some((type) => filter.types.includes(type))
+    ) {
+      return false;
+    }
+
+    const hasMedia = types.includes("photo") || types.includes("file");
+    if (
+      (filter.hasMedia === "with" && !hasMedia) ||
+      (filter.hasMedia === "without" && hasMedia)
+    ) {
+      return false;
+    }
+
+    if (filter.author && getMessageAuthor(message) !== filter.author) {
+      return false;
+    }
+
+    return !search || search.test(getSearchText(message, settings));
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { describe, expect, it } from "@jest/globals";
+import { Blob as NodeBlob } from "buffer";
+import { webcrypto } from "crypto";
+import { computeCid, createLocalBackend } from "./ipfs";
+
+// Not globals in the node environment of this jest
+Object.assign(globalThis, { Blob: NodeBlob, crypto: webcrypto });
+
+// Same bytes for the same size every time
+const sample = (size: number): Blob => {
+  const data = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    data[i] = (i * 31 + 7) % 251;
+  }
+  return new Blob([data]);
+};
+
+// From `ipfs add --cid-version=1 --raw-leaves` of the same samples
+describe("computeCid", () => {
+  it("gives a raw block for files of a single chunk", async () => {
+    expect(await computeCid(sample(0))).toBe(
+      "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku"
+    );
+    expect(await computeCid(sample(5))).toBe(
+      "bafkreifh73lzsavxsqdqrd44yzme65ig7awyxzb5yqm76wvrs2o73usf6u"
+    );
+    expect(await computeCid(sample(262144))).toBe(
+      "bafkreieiuj5mzeuqor24l4lmo2yumm6665yv4gq7ozzp2nrfmqrjyboosy"
+    );
+  });
+
+  it("gives a dag-pb root for larger files", async () => {
+    expect(await computeCid(sample(262145))).toBe(
+      "bafybeich6cqd6yabw3cku6edwmz4rvwe275nx2l6ootvc2bpbt5bdvarua"
+    );
+    expect(await computeCid(sample(262144 * 3 + 17))).toBe(
+      "bafybeiaqncakyeu33nka46wpix5psywztnthqszkgicglu5l2zcvuaimde"
+    );
+  });
+
+  it("nests nodes past 174 chunks", async () => {
+    expect(await computeCid(sample(262144 * 174))).toBe(
+      "bafybeiafkae3md3zfgdgpk2ztpkul5dzotu4bgbnvuinadceqrqa2rz7bi"
+    );
+    expect(await computeCid(sample(262144 * 174 + 1))).toBe(
+      "bafybeibo5yjphmmdq6aigqtgrijost25l5lmv5l37von7hrjv7sagnx4sy"
+    );
+  });
+});
+
+describe("createLocalBackend", () => {
+  it("keeps uploads under their ipfs:// URI", async () => {
+    const backend = createLocalBackend();
+    const file = sample(5);
+    const uri = await backend.uploadFile(file);
+    expect(uri).toBe(
+      "ipfs://bafkreifh73lzsavxsqdqrd44yzme65ig7awyxzb5yqm76wvrs2o73usf6u"
+    );
+    expect(backend.files.get(uri)).toBe(file);
+  });
+});
@@ -1,28 +1,306 @@
-const ipfsEndpoint = "https://ipfs-relay.crossbell.io";
+export type StorageBackendType = "relay" | "kubo" | "local";
 
-export const uploadFile = async (file: File | Blob) => {
-  const formData = new FormData();
-  formData.append("file", file);
+export interface StorageOptions {
+  storageBackend: StorageBackendType;
+  // Kubo RPC API, like http://127.0.0.1:5001
+  kuboApiUrl: string;
+}
 
-  const result = await fetch(`${ipfsEndpoint}/upload`, {
-    method: "PUT",
-    body: formData,
-  });
+// Where medias and notes are uploaded to, every method resolves an ipfs:// URI
+export interface StorageBackend {
+  name: string;
+  // Tells backends apart in the upload cache
+  id: string;
+  // Whether uploads are still there after this session
+  isPersistent: boolean;
+  uploadFile: (file: File | Blob) => Promise<string>;
+  uploadJson: (data: object) => Promise<string>;
+}
+
+export class StorageError extends Error {
+  backend: string;
+  // HTTP status of the response, undefined if there was none
+  status?: number;
+
+  constructor(backend: string, message: string, status?: number) {
+    super(`${backend}: ${message}`);
+    this.name = "StorageError";
+    this.backend = backend;
+    this.status = status;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, StorageError.prototype);
+  }
+}
+
+const jsonBlob = (data: object): Blob =>
+  new Blob([JSON.stringify(data)], { type: "application/json" });
+
+const request = async (
+  backend: string,
+  input: string,
+  init: RequestInit
+): Promise<any> => {
+  let result: Response;
+  try {
+    result = await fetch(input, init);
+  } catch (e: any) {
+    throw new StorageError(backend, `request failed, ${e.message}`);
+  }
+
+  if (!result.ok) {
+    const body = await result.text().catch(() => "");
+    throw new StorageError(
+      backend,
+      `${result.status} ${result.statusText} ${body}`.trim(),
+      result.status
+    );
+  }
+
+  try {
+    return await result.json();
+  } catch (e: any) {
+    throw new StorageError(backend, "malformed response", result.status);
+  }
+};
 
-  if (result.ok) {
-    const res = await result.json();
+export const createRelayBackend = (
+  endpoint: string = "https://ipfs-relay.crossbell.io"
+): StorageBackend => {
+  const name = "Crossbell IPFS relay";
+
+  const readUrl = (res: any): string => {
+    if (typeof res?.url !== "string" || !res.url) {
+      throw new StorageError(name, "response has no url");
+    }
     return res.url;
+  };
+
+  return {
+    name,
+    id: `relay:${endpoint}`,
+    isPersistent: true,
+    uploadFile: async (file) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      return readUrl(
+        await request(name, `${endpoint}/upload`, {
+          method: "PUT",
+          body: formData,
+        })
+      );
+    },
+    uploadJson: async (data) =>
+      readUrl(
+        await request(name, `${endpoint}/json`, {
+          method: "POST",
+          body: JSON.stringify(data),
+        })
+      ),
+  };
+};
+
+export const createKuboBackend = (apiUrl: string): StorageBackend => {
+  const name = "IPFS node";
+  if (!apiUrl) {
+    throw new StorageError(name, "no API URL provided");
   }
+  const endpoint = apiUrl.replace(/\/+$/, "");
+
+  // CIDv1 with raw leaves, same as the local backend computes
+  const add = async (file: Blob): Promise<string> => {
+    const formData = new FormData();
+    formData.append("file", file);
+    const res = await request(
+      name,
+      `${endpoint}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`,
+      {
+        method: "POST",
+        body: formData,
+      }
+    );
+    if (typeof res?.Hash !== "string" || !res.Hash) {
+      throw new StorageError(name, "response has no hash");
+    }
+    return `ipfs://${res.Hash}`;
+  };
+
+  return {
+    name,
+    id: `kubo:${endpoint}`,
+    isPersistent: true,
+    uploadFile: add,
+    uploadJson: (data) => add(jsonBlob(data)),
+  };
 };
 
-export const uploadJson = async (data: object) => {
-  const result = await fetch(`${ipfsEndpoint}/json`, {
-    method: "POST",
-    body: JSON.stringify(data),
+const base32Alphabet = "abcdefghijklmnopqrstuvwxyz234567";
+
+const toBase32 = (bytes: Uint8Array): string => {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  bytes.forEach((byte) => {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += base32Alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
   });
+  if (bits > 0) {
+    output += base32Alphabet[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+};
 
-  if (result.ok) {
-    const res = await result.json();
-    return res.url;
+// Defaults of `ipfs add`: 256 KiB chunks, balanced tree of 174 links a node
+const chunkSize = 262144;
+const maxLinks = 174;
+
+// Protobuf varint, without bitwise operators that would cut it to 32 bits
+const varint = (value: number): number[] => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
   }
+  bytes.push(value);
+  return bytes;
 };
+
+const lengthDelimited = (field: number, bytes: ArrayLike<number>): number[] => [
+  (field << 3) | 2,
+  ...varint(bytes.length),
+  ...Array.from(bytes),
+];
+
+// Version 1, codec, sha2-256 multihash of 32 bytes
+const sha256Cid = async (
+  codec: number,
+  bytes: BufferSource
+): Promise<Uint8Array> =>
+  new Uint8Array([
+    0x01,
+    codec,
+    0x12,
+    0x20,
+    ...Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))),
+  ]);
+
+interface DagNode {
+  cid: Uint8Array;
+  // Bytes of the file under it
+  fileSize: number;
+  // Bytes of the blocks under it, the Tsize of links to it
+  totalSize: number;
+}
+
+// dag-pb node of a UnixFS file, links first as in its canonical form
+const fileNode = async (children: DagNode[]): Promise<DagNode> => {
+  const links = children.flatMap((child) =>
+    lengthDelimited(2, [
+      ...lengthDelimited(1, child.cid),
+      // Empty name
+      ...lengthDelimited(2, []),
+      0x18,
+      ...varint(child.totalSize),
+    ])
+  );
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const unixfs = [
+    // Type file
+    0x08,
+    0x02,
+    0x18,
+    ...varint(fileSize),
+    ...children.flatMap((child) => [0x20, ...varint(child.fileSize)]),
+  ];
+  const block = new Uint8Array([...links, ...lengthDelimited(1, unixfs)]);
+  return {
+    cid: await sha256Cid(0x70, block),
+    fileSize,
+    totalSize:
+      block.length + children.reduce((sum, child) => sum + child.totalSize, 0),
+  };
+};
+
+// CIDv1 of the file as `ipfs add --cid-version=1 --raw-leaves` gives it: a
+// raw block up to 256 KiB, a tree of dag-pb nodes over raw chunks above
+export const computeCid = async (blob: Blob): Promise<string> => {
+  let nodes: DagNode[] = [];
+  // One empty chunk for an empty file
+  let offset = 0;
+  do {
+    const chunk = await blob.slice(offset, offset + chunkSize).arrayBuffer();
+    nodes.push({
+      cid: await sha256Cid(0x55, chunk),
+      fileSize: chunk.byteLength,
+      totalSize: chunk.byteLength,
+    });
+    offset += chunkSize;
+  } while (offset < blob.size);
+  while (nodes.length > 1) {
+    const parents: DagNode[] = [];
+    for (let i = 0; i < nodes.length; i += maxLinks) {
+      parents.push(await fileNode(nodes.slice(i, i + maxLinks)));
+    }
+    nodes = parents;
+  }
+  // Multibase prefix of base32
+  return `b${toBase32(nodes[0].cid)}`;
+};
+
+// Keeps everything in memory, for testing without network
+export const createLocalBackend = (): StorageBackend & {
+  files: Map<string, Blob>;
+} => {
+  const files = new Map<string, Blob>();
+
+  const add = async (file: Blob): Promise<string> => {
+    const uri = `ipfs://${await computeCid(file)}`;
+    files.set(uri, file);
+    return uri;
+  };
+
+  return {
+    name: "Local (offline)",
+    id: "local",
+    isPersistent: false,
+    files,
+    uploadFile: add,
+    uploadJson: (data) => add(jsonBlob(data)),
+  };
+};
+
+export const createStorageBackend = (
+  options: StorageOptions
+): StorageBackend => {
+  switch (options.storageBackend) {
+    case "kubo":
+      return createKuboBackend(options.kuboApiUrl);
+    case "local":
+      return createLocalBackend();
+    default:
+      return createRelayBackend();
+  }
+};
+
+let storageBackend: StorageBackend | null = null;
+
+export const setStorageBackend = (backend: StorageBackend) => {
+  storageBackend = backend;
+};
+
+export const getStorageBackend = (): StorageBackend => {
+  if (!storageBackend) {
+    storageBackend = createRelayBackend();
+  }
+
+  return storageBackend;
+};
+
+export const uploadFile = async (file: File | Blob): Promise<string> =>
+  getStorageBackend().uploadFile(file);
+
+export const uploadJson = async (data: object): Promise<string> =>
+  getStorageBackend().uploadJson(data);
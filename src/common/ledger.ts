@@ -0,0 +1,38 @@
+import { getLedger } from "./session";
+
+const csvColumns = [
+  "chat_id",
+  "message_id",
+  "character_id",
+  "note_id",
+  "transaction_hash",
+  "note_uri",
+  "attachment_uris",
+  "migrated_at",
+];
+
+const escapeCsvField = (field: string | number | undefined): string => {
+  const text = field === undefined ? "" : field.toString();
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const ledgerToJson = (): string => JSON.stringify(getLedger(), null, 2);
+
+export const ledgerToCsv = (): string => {
+  const rows = getLedger().map((entry) =>
+    [
+      entry.chatId,
+      entry.messageId,
+      entry.characterId,
+      entry.noteId,
+      entry.transactionHash,
+      entry.noteUri,
+      entry.attachmentUris?.join(" "),
+      entry.migratedAt,
+    ]
+      .map(escapeCsvField)
+      .join(",")
+  );
+
+  return [csvColumns.join(","), ...rows].join("\n");
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  escapeMarkdown,
+  renderBlock,
+  renderInlineCode,
+  renderLink,
+  wrapInline,
+} from "./markdown";
+
+describe("escapeMarkdown", () => {
+  it("escapes inline markers", () => {
+    expect(escapeMarkdown("*a* _b_ `c` [d] <e> ~f~ g|h & \\")).toBe(
+      "\\*a\\* \\_b\\_ \\`c\\` \\[d\\] \\<e\\> \\~f\\~ g\\|h \\& \\\\"
+    );
+  });
+
+  it("escapes block markers only at line start", () => {
+    expect(escapeMarkdown("# a\n- b\n 1. c\n2) d\ne - f 3.")).toBe(
+      "\\# a\n\\- b\n 1\\. c\n2\\) d\ne - f 3."
+    );
+  });
+});
+
+describe("wrapInline", () => {
+  it("keeps whitespace and line breaks outside the markers", () => {
+    expect(wrapInline(" a \n\nb c\n", "**")).toBe(" **a** \n\n**b c**\n");
+    expect(wrapInline("a", "<u>", "</u>")).toBe("<u>a</u>");
+  });
+
+  const tags = (before: string, after: string) => ({
+    open: "<b>",
+    close: "</b>",
+    before,
+    after,
+  });
+
+  it("uses markers where they can open and close", () => {
+    expect(wrapInline("bold", "**", "**", tags("a", "b"))).toBe("**bold**");
+    expect(wrapInline("(1)", "**", "**", tags(" ", "."))).toBe("**(1)**");
+    expect(wrapInline("bold:", "**", "**", tags("", ""))).toBe("**bold:**");
+  });
+
+  it("falls back to tags next to punctuation inside", () => {
+    expect(wrapInline("(1)", "**", "**", tags("e", "n"))).toBe("<b>(1)</b>");
+    expect(wrapInline("bold:", "**", "**", tags("", "x"))).toBe("<b>bold:</b>");
+  });
+
+  it("falls back to tags next to markers of the same kind", () => {
+    expect(wrapInline("a", "*", "*", tags("*", ""))).toBe("<b>a</b>");
+  });
+
+  it("only looks outside the text on its first and last lines", () => {
+    expect(wrapInline("(a)\n(b)", "**", "**", tags("x", "y"))).toBe(
+      "<b>(a)</b>\n<b>(b)</b>"
+    );
+    expect(wrapInline("(a)\n(b)\n(c)", "**", "**", tags("x", ""))).toBe(
+      "<b>(a)</b>\n**(b)**\n**(c)**"
+    );
+  });
+});
+
+describe("renderInlineCode", () => {
+  it("uses a fence longer than backticks inside", () => {
+    expect(renderInlineCode("a")).toBe("`a`");
+    expect(renderInlineCode("a``b")).toBe("```a``b```");
+    expect(renderInlineCode("`a")).toBe("`` `a ``");
+  });
+});
+
+describe("renderLink", () => {
+  it("escapes the text and angle brackets in the target", () => {
+    expect(renderLink("[a]", "https://b.c/<d>")).toBe(
+      "[\\[a\\]](<https://b.c/%3Cd%3E>)"
+    );
+  });
+});
+
+describe("renderBlock", () => {
+  it("starts on a new line and ends with a blank one", () => {
+    expect(renderBlock("", "> a")).toBe("> a\n\n");
+    expect(renderBlock("text", "> a")).toBe("\n> a\n\n");
+    expect(renderBlock("text\n", "> a")).toBe("> a\n\n");
+  });
+});
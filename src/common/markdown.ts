@@ -0,0 +1,68 @@
+// Backslash works for every ASCII punctuation in CommonMark
+export const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/[\\`*_[\]<>~|&]/g, "\\$&")
+    // Block markers at line start
+    .replace(/^(\s*)([#+-])/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])/gm, "$1\\$2");
+
+const isPunctuation = (char: string): boolean => /[\p{P}\p{S}]/u.test(char);
+
+// Flanking rule of CommonMark, a delimiter between punctuation inside and a
+// letter or another delimiter of its kind outside can't open or close
+const canDelimit = (marker: string, outside: string, inside: string) =>
+  !outside ||
+  /\s/.test(outside) ||
+  (outside !== marker[0] && (isPunctuation(outside) || !isPunctuation(inside)));
+
+export interface InlineFallback {
+  // Tags used where the markers would be taken as plain text
+  open: string;
+  close: string;
+  // Characters around the text, empty at its ends
+  before: string;
+  after: string;
+}
+
+// Markers can't open or close next to whitespace, nor span lines
+export const wrapInline = (
+  text: string,
+  open: string,
+  close: string = open,
+  fallback?: InlineFallback
+) =>
+  text
+    .split("\n")
+    .map((line, i, lines) => {
+      const [, leading, body, trailing] = line.match(/^(\s*)(.*?)(\s*)$/)!;
+      if (!body) {
+        return line;
+      }
+      const before = leading || (i === 0 && fallback?.before) || "";
+      const after =
+        trailing || (i === lines.length - 1 && fallback?.after) || "";
+      const isDelimited =
+        !fallback ||
+        (canDelimit(open, before.slice(-1), body[0]) &&
+          canDelimit(close, after[0] || "", body[body.length - 1]));
+      return isDelimited
+        ? `${leading}${open}${body}${close}${trailing}`
+        : `${leading}${fallback.open}${body}${fallback.close}${trailing}`;
+    })
+    .join("\n");
+
+export const longestBacktickRun = (text: string): number =>
+  Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+
+export const renderInlineCode = (text: string): string => {
+  const fence = "`".repeat(longestBacktickRun(text) + 1);
+  const padding = text.startsWith("`") || text.endsWith("`") ? " " : "";
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+export const renderLink = (text: string, href: string): string =>
+  `[${escapeMarkdown(text)}](<${href.replace(/[<>]/g, encodeURIComponent)}>)`;
+
+// Blocks have to start on a new line, and end with a blank one
+export const renderBlock = (content: string, block: string): string =>
+  `${content && !content.endsWith("\n") ? "\n" : ""}${block}\n\n`;
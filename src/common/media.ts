@@ -0,0 +1,293 @@
+import type {
+  MediaFile,
+  TGExportMessageData,
+  TGExportMessageDataWithPhotos,
+} from "./contract";
+import { getExportFile } from "./export";
+import { escapeMarkdown, renderLink } from "./markdown";
+
+export type MessageKind =
+  | "text"
+  | "service"
+  | "photo"
+  | "file"
+  | "sticker"
+  | "voice_message"
+  | "video_message"
+  | "animation"
+  | "video_file"
+  | "audio_file"
+  | "poll"
+  | "location"
+  | "contact";
+
+// A media file read from the export, not uploaded yet
+export interface PendingAttachment {
+  // Path in the export, or the name of generated ones
+  source: string;
+  name: string;
+  blob: Blob;
+  mime_type: string;
+  alt: string;
+  width?: number;
+  height?: number;
+}
+
+const mediaKinds: MessageKind[] = [
+  "sticker",
+  "voice_message",
+  "video_message",
+  "animation",
+  "video_file",
+  "audio_file",
+];
+
+export const GetMessageKind = (
+  message: TGExportMessageDataWithPhotos
+): MessageKind => {
+  if (message.type === "service") return "service";
+  if (message.poll) return "poll";
+  if (message.location_information) return "location";
+  if (message.contact_information) return "contact";
+  if (mediaKinds.includes(message.media_type as MessageKind)) {
+    return message.media_type as MessageKind;
+  }
+  if (message.photos?.some((photo) => !!photo.photo)) return "photo";
+  if (message.file) return "file";
+  return "text";
+};
+
+export const FormatDuration = (seconds: number = 0): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60)
+    .toString()
+    .padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+export const GetMapLink = (latitude: number, longitude: number): string =>
+  `https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`;
+
+export const GetContactName = (message: TGExportMessageData): string =>
+  [
+    message.contact_information?.first_name,
+    message.contact_information?.last_name,
+  ]
+    .filter((name) => !!name)
+    .join(" ");
+
+const escapeVCardValue = (value: string = ""): string =>
+  value.replace(/[\\,;]/g, "\\$&").replace(/\n/g, "\\n");
+
+export const GetContactVCard = (message: TGExportMessageData): string => {
+  const contact = message.contact_information || {};
+  return [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `N:${escapeVCardValue(contact.last_name)};${escapeVCardValue(
+      contact.first_name
+    )};;;`,
+    `FN:${escapeVCardValue(GetContactName(message))}`,
+    ...(contact.phone_number
+      ? [`TEL;TYPE=CELL:${escapeVCardValue(contact.phone_number)}`]
+      : []),
+    "END:VCARD",
+  ].join("\r\n");
+};
+
+const renderPoll = (message: TGExportMessageData): string => {
+  const poll = message.poll!;
+  const total = poll.total_voters || 0;
+  const rows = poll.answers.map((answer) => {
+    const percent = total > 0 ? Math.round((answer.voters / total) * 100) : 0;
+    return `| ${answer.chosen ? "✔ " : ""}${escapeMarkdown(answer.text)} | ${
+      answer.voters
+    } | ${percent}% |`;
+  });
+
+  return [
+    `📊 **${escapeMarkdown(poll.question)}**`,
+    "",
+    "| Option | Votes | % |",
+    "| --- | ---: | ---: |",
+    ...rows,
+    "",
+    `*${total} votes${poll.closed ? " · Final results" : ""}*`,
+  ].join("\n");
+};
+
+const renderLocation = (message: TGExportMessageData): string => {
+  const { latitude, longitude } = message.location_information!;
+  return [
+    message.live_location_period_seconds
+      ? `📍 **Live location**`
+      : `📍 **${escapeMarkdown(message.place_name || "Location")}**`,
+    ...(message.address ? [escapeMarkdown(message.address)] : []),
+    renderLink(`${latitude}, ${longitude}`, GetMapLink(latitude, longitude)),
+  ].join("  \n");
+};
+
+const renderContact = (message: TGExportMessageData): string => {
+  const phone = message.contact_information?.phone_number;
+  return [
+    `👤 **${escapeMarkdown(GetContactName(message) || "Contact")}**`,
+    ...(phone
+      ? [renderLink(phone, `tel:${phone.replace(/[^\d+]/g, "")}`)]
+      : []),
+  ].join("  \n");
+};
+
+// Markdown describing media and structured payloads, besides message text
+export const RenderMediaContent = (
+  message: TGExportMessageDataWithPhotos
+): string => {
+  switch (GetMessageKind(message)) {
+    case "sticker":
+      return `${message.sticker_emoji || ""} *Sticker*`.trim();
+    case "voice_message":
+      return `🎤 *Voice message (${FormatDuration(message.duration_seconds)})*`;
+    case "video_message":
+      return `📹 *Video message (${FormatDuration(message.duration_seconds)})*`;
+    case "audio_file":
+      return message.performer || message.title
+        ? `🎵 *${escapeMarkdown(
+            [message.performer, message.title].filter((t) => !!t).join(" – ")
+          )}*`
+        : "";
+    case "poll":
+      return renderPoll(message);
+    case "location":
+      return renderLocation(message);
+    case "contact":
+      return renderContact(message);
+    default:
+      return "";
+  }
+};
+
+const readExportFile = async (
+  path: string,
+  missingFiles?: string[]
+): Promise<Blob | undefined> => {
+  const blob = await getExportFile(path);
+  if (!blob) {
+    if (missingFiles) {
+      missingFiles.push(path);
+      return undefined;
+    }
+    throw new Error(`Cannot find ${path} in the selected export`);
+  }
+  return blob;
+};
+
+const fileNameOf = (path: string): string => `${path.split("/").pop()}`;
+
+// Missing files are collected into missingFiles if given, or throw
+const CollectFile = async (
+  item: MediaFile,
+  stickerEmoji?: string,
+  missingFiles?: string[]
+): Promise<PendingAttachment | undefined> => {
+  const file = item.file!;
+  const isSticker = item.media_type === "sticker";
+  // Animated stickers can't be shown anywhere else, use their thumbnail
+  const path =
+    isSticker && file.endsWith(".tgs") && item.thumbnail
+      ? item.thumbnail
+      : file;
+  const blob = await readExportFile(path, missingFiles);
+  if (!blob) {
+    return undefined;
+  }
+
+  return {
+    source: file,
+    name: fileNameOf(path),
+    blob,
+    mime_type: path === file ? item.mime_type || blob.type : blob.type,
+    alt: isSticker && stickerEmoji ? stickerEmoji : fileNameOf(path),
+    width: item.width,
+    height: item.height,
+  };
+};
+
+// What CollectAttachments would read, without reading anything
+export const GetAttachmentSources = (
+  message: TGExportMessageDataWithPhotos
+): { source: string; mimeType?: string }[] => {
+  const sources: { source: string; mimeType?: string }[] = [];
+  for (const photo of message.photos || []) {
+    if (!photo.photo) break;
+    sources.push({ source: photo.photo, mimeType: "image/jpeg" });
+  }
+  for (const item of [message, ...(message.files || [])]) {
+    if (item.file) {
+      sources.push({ source: item.file, mimeType: item.mime_type });
+    }
+  }
+  if (GetMessageKind(message) === "contact") {
+    sources.push({
+      source: `${GetContactName(message) || "contact"}.vcf`,
+      mimeType: "text/vcard",
+    });
+  }
+  return sources;
+};
+
+export const CollectAttachments = async (
+  message: TGExportMessageDataWithPhotos,
+  missingFiles?: string[]
+): Promise<PendingAttachment[]> => {
+  const attachments: PendingAttachment[] = [];
+  const kind = GetMessageKind(message);
+
+  if (!!message.photos) {
+    // Is photo
+    for (const photo of message.photos) {
+      if (!photo.photo) break;
+      const blob = await readExportFile(photo.photo, missingFiles);
+      if (!blob) continue;
+      attachments.push({
+        source: photo.photo,
+        name: fileNameOf(photo.photo),
+        blob,
+        mime_type: blob.type,
+        alt: fileNameOf(photo.photo),
+        width: photo.width,
+        height: photo.height,
+      });
+    }
+  }
+
+  for (const item of [message, ...(message.files || [])]) {
+    if (!item.file) continue;
+    const attachment = await CollectFile(
+      item,
+      item === message ? message.sticker_emoji : undefined,
+      missingFiles
+    );
+    if (attachment) {
+      attachments.push(attachment);
+    }
+  }
+
+  if (kind === "contact") {
+    const name = `${GetContactName(message) || "contact"}.vcf`;
+    // Export has the vCard file only with contacts included
+    const exported = message.contact_vcard
+      ? await getExportFile(message.contact_vcard)
+      : undefined;
+    const blob =
+      exported || new Blob([GetContactVCard(message)], { type: "text/vcard" });
+    attachments.push({
+      source: name,
+      name,
+      blob,
+      mime_type: "text/vcard",
+      alt: name,
+    });
+  }
+
+  return attachments;
+};
@@ -0,0 +1,287 @@
+import { GetForwardSource } from "./contract";
+import type {
+  ReplyTarget,
+  TGExportMessageData,
+  TGExportMessageDataWithPhotos,
+} from "./contract";
+import type { ChatProgress, Setting } from "./session";
+import { claimLegacyProgress, isMessageMigrated } from "./session";
+import { isServiceActionIncluded } from "./service";
+
+export interface ExportChat {
+  id: number;
+  name: string;
+  type: string; // personal_chat / private_group / public_supergroup / public_channel / saved_messages / ...
+  messages: TGExportMessageData[];
+
+  // Came from chats.list[] of a full-account export
+  isFromAccountExport: boolean;
+}
+
+export const isAccountExport = (result: any): boolean =>
+  Array.isArray(result.chats?.list);
+
+export const getExportChats = (result: any): ExportChat[] => {
+  if (!isAccountExport(result)) {
+    return [
+      {
+        id: result.id,
+        name: result.name || "Unnamed",
+        type: result.type,
+        messages: result.messages || [],
+        isFromAccountExport: false,
+      },
+    ];
+  }
+
+  return [...result.chats.list, ...(result.left_chats?.list || [])].map(
+    (chat: any): ExportChat => ({
+      id: chat.id,
+      name: chat.name || "Unnamed",
+      type: chat.type,
+      messages: chat.messages || [],
+      isFromAccountExport: true,
+    })
+  );
+};
+
+export const getChatChannelName = (
+  chat: ExportChat,
+  settings: Setting
+): string =>
+  chat.isFromAccountExport
+    ? settings.chatChannelNames[chat.id] || ""
+    : settings.channelName;
+
+// Progress saved before multiple chats support came from a single chat
+// export, or from the chat of the channel set then
+export const claimLegacyChatProgress = (
+  chats: ExportChat[],
+  settings: Setting
+) => {
+  const chat = chats.find(
+    (chat) =>
+      !chat.isFromAccountExport ||
+      (!!settings.channelName &&
+        getChatChannelName(chat, settings) === settings.channelName)
+  );
+  if (chat) {
+    claimLegacyProgress(chat.id);
+  }
+};
+
+const chatMessageIndexes = new WeakMap<
+  ExportChat,
+  Map<number, TGExportMessageData>
+>();
+
+export const findChatMessage = (
+  chat: ExportChat,
+  id: number
+): TGExportMessageData | undefined => {
+  let index = chatMessageIndexes.get(chat);
+  if (!index) {
+    index = new Map(chat.messages.map((msg) => [msg.id, msg]));
+    chatMessageIndexes.set(chat, index);
+  }
+
+  return index.get(id);
+};
+
+export const getReplyTarget = (
+  chat: ExportChat,
+  message: TGExportMessageData,
+  chatProgress: ChatProgress
+): ReplyTarget | undefined => {
+  const id = message.reply_to_message_id;
+  if (id === undefined) {
+    return undefined;
+  }
+
+  return {
+    id,
+    noteId: chatProgress.ledger[id]?.noteId,
+    message: findChatMessage(chat, id),
+  };
+};
+
+export const getPinnedTarget = (
+  chat: ExportChat,
+  message: TGExportMessageData,
+  chatProgress: ChatProgress
+): ReplyTarget | undefined => {
+  const id = message.message_id;
+  if (message.action !== "pin_message" || id === undefined) {
+    return undefined;
+  }
+
+  return {
+    id,
+    noteId: chatProgress.ledger[id]?.noteId,
+    message: findChatMessage(chat, id),
+  };
+};
+
+export type AggregateMediaType = "photo" | "video" | "document";
+
+export const AggregateMediaTypeLabels: {
+  [type in AggregateMediaType]: string;
+} = {
+  photo: "Photos",
+  video: "Videos",
+  document: "Documents",
+};
+
+const getAggregateMediaType = (
+  msg: TGExportMessageData
+): AggregateMediaType | undefined => {
+  if (msg.photo) return "photo";
+  if (msg.file && msg.media_type === "video_file") return "video";
+  if (msg.file && !msg.media_type) return "document";
+  return undefined;
+};
+
+const hasText = (msg: TGExportMessageData): boolean =>
+  msg.text_entities.some((entity) => !!entity.text);
+
+const textParts = (text: TGExportMessageData["text"]) =>
+  typeof text === "string" ? (text ? [text] : []) : text;
+
+// Every message it's made of
+export const getMessageIds = (msg: TGExportMessageDataWithPhotos): number[] =>
+  msg.aggregated_ids || [msg.id];
+
+export const isAggregateMigrated = (
+  chatProgress: ChatProgress,
+  msg: TGExportMessageDataWithPhotos
+): boolean =>
+  getMessageIds(msg).every((id) => isMessageMigrated(chatProgress, id));
+
+// A single message, with its photo in the photos list
+const withPhotos = (msg: TGExportMessageData): TGExportMessageDataWithPhotos =>
+  msg.photo
+    ? {
+        photos: [{ photo: msg.photo, width: msg.width, height: msg.height }],
+        ...msg,
+      }
+    : msg;
+
+// Appends an original message to an aggregated one, as a new copy
+const appendMessage = (
+  target: TGExportMessageDataWithPhotos,
+  msg: TGExportMessageData
+): TGExportMessageDataWithPhotos => {
+  const merged: TGExportMessageDataWithPhotos = {
+    ...target,
+    aggregated_ids: getMessageIds(target).concat(msg.id),
+  };
+
+  if (msg.photo) {
+    merged.photos = (target.photos || []).concat({
+      photo: msg.photo,
+      width: msg.width,
+      height: msg.height,
+    });
+  }
+  if (msg.file) {
+    merged.files = (target.files || []).concat({
+      file: msg.file,
+      thumbnail: msg.thumbnail,
+      mime_type: msg.mime_type,
+      width: msg.width,
+      height: msg.height,
+      media_type: msg.media_type,
+      duration_seconds: msg.duration_seconds,
+    });
+  }
+
+  if (!hasText(target)) {
+    merged.text = msg.text;
+    merged.text_entities = msg.text_entities;
+  } else if (hasText(msg)) {
+    // Both have text, one paragraph each
+    merged.text = [...textParts(target.text), "\n\n", ...textParts(msg.text)];
+    merged.text_entities = [
+      ...target.text_entities,
+      { type: "plain", text: "\n\n" },
+      ...msg.text_entities,
+    ];
+  }
+
+  return merged;
+};
+
+const canAggregate = (
+  last: TGExportMessageDataWithPhotos,
+  lastTsp: number,
+  msg: TGExportMessageData,
+  settings: Setting
+): boolean => {
+  const mediaType = getAggregateMediaType(msg);
+  return (
+    last.type === "message" &&
+    msg.type === "message" &&
+    last.from_id === msg.from_id &&
+    Math.abs(+msg.date_unixtime - lastTsp) < settings.aggregateWindow &&
+    mediaType !== undefined &&
+    settings.aggregateMediaTypes.includes(mediaType) &&
+    (settings.aggregateJoinText || !hasText(last) || !hasText(msg))
+  );
+};
+
+// Messages sent in a row within the window are regarded as one note, when
+// the later ones only bring media of the chosen types
+export const aggregateMessages = (
+  msgs: TGExportMessageData[],
+  settings: Setting
+): TGExportMessageDataWithPhotos[] => {
+  if (!settings.aggregatedByTsp) {
+    return msgs.map(withPhotos);
+  }
+
+  const aggregated: TGExportMessageDataWithPhotos[] = [];
+  let lastTsp = 0;
+  for (const msg of msgs) {
+    const last = aggregated[aggregated.length - 1];
+    if (last && canAggregate(last, lastTsp, msg, settings)) {
+      aggregated[aggregated.length - 1] = appendMessage(last, msg);
+    } else {
+      aggregated.push(withPhotos(msg));
+    }
+    lastTsp = +msg.date_unixtime;
+  }
+
+  return aggregated;
+};
+
+// Aggregates two adjacent items of a chat by hand, regardless of settings
+export const mergeMessages = (
+  chat: ExportChat,
+  first: TGExportMessageDataWithPhotos,
+  second: TGExportMessageDataWithPhotos
+): TGExportMessageDataWithPhotos =>
+  getMessageIds(second)
+    .map((id) => findChatMessage(chat, id))
+    .reduce(
+      (merged, msg) => (msg ? appendMessage(merged, msg) : merged),
+      first
+    );
+
+// Back to the original messages
+export const splitMessage = (
+  chat: ExportChat,
+  msg: TGExportMessageDataWithPhotos
+): TGExportMessageDataWithPhotos[] =>
+  getMessageIds(msg)
+    .map((id) => findChatMessage(chat, id))
+    .filter((original): original is TGExportMessageData => !!original)
+    .map(withPhotos);
+
+export const isSelectedByDefault = (
+  msg: TGExportMessageDataWithPhotos,
+  settings: Setting
+): boolean =>
+  (msg.type !== "service" ||
+    (settings.includeService &&
+      isServiceActionIncluded(msg, settings.excludedServiceActions))) &&
+  (!settings.skipForwards || !GetForwardSource(msg));
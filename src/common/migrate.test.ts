@@ -0,0 +1,292 @@
+/**
+ * @jest-environment node
+ */
+import {
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+  jest as mockJest,
+} from "@jest/globals";
+import {
+  NoteNotSentError,
+  PostedNote,
+  signerPostUploadedNote,
+  signerPostUploadedNotes,
+  TGExportMessageDataWithPhotos,
+  UploadedNote,
+  uploadNote,
+} from "./contract";
+import { createLocalBackend, setStorageBackend } from "./ipfs";
+import { ExportChat } from "./messages";
+import { createMigrateControl, migrateMessages } from "./migrate";
+import {
+  createMemoryProgressStore,
+  getChatProgress,
+  getSetting,
+  loadProgress,
+  setProgressStore,
+  setSessionStore,
+  Setting,
+} from "./session";
+
+// Storage and chain are left out, the pipeline is what's tested
+jest.mock("./contract", () => ({
+  ...(mockJest.requireActual("./contract") as object),
+  uploadNote: mockJest.fn(),
+  signerPostUploadedNote: mockJest.fn(),
+  signerPostUploadedNotes: mockJest.fn(),
+}));
+
+const mockedUploadNote = jest.mocked(uploadNote);
+const mockedPostNote = jest.mocked(signerPostUploadedNote);
+const mockedPostNotes = jest.mocked(signerPostUploadedNotes);
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+const chat: ExportChat = {
+  id: 1,
+  name: "Chat",
+  type: "public_channel",
+  messages: [],
+  isFromAccountExport: false,
+};
+
+const message = (
+  id: number,
+  extra: Partial<TGExportMessageDataWithPhotos> = {}
+): TGExportMessageDataWithPhotos => ({
+  id,
+  type: "message",
+  date: "2022-10-01T00:00:00",
+  date_unixtime: "1664582400",
+  text: `message ${id}`,
+  text_entities: [{ type: "plain", text: `message ${id}` }],
+  ...extra,
+});
+
+// Note IDs in the order notes were posted
+let posted: number[] = [];
+let uploadDelay = 0;
+
+const postedNote = (uploadedNote: UploadedNote): PostedNote => {
+  const messageId = parseInt(uploadedNote.noteUri.replace("ipfs://", ""));
+  posted.push(messageId);
+  return {
+    characterId: 1,
+    noteId: messageId + 100,
+    transactionHash: `0x${messageId}`,
+    noteUri: uploadedNote.noteUri,
+    attachmentUris: [],
+  };
+};
+
+const settingsOf = (patch: Partial<Setting>): Setting => ({
+  ...getSetting(),
+  retryCount: 0,
+  ...patch,
+});
+
+const run = (
+  count: number,
+  patch: Partial<Setting>,
+  handlers: Parameters<typeof migrateMessages>[2] = {},
+  control = createMigrateControl()
+) => {
+  chat.messages = Array.from({ length: count }, (_, i) => message(i + 1));
+  return migrateMessages(
+    chat.messages.map((msg) => ({ chat, message: msg })),
+    settingsOf(patch),
+    handlers,
+    control
+  );
+};
+
+beforeEach(async () => {
+  const items: { [key: string]: string } = {};
+  setSessionStore({
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value;
+    },
+    removeItem: (key) => {
+      delete items[key];
+    },
+  });
+  setProgressStore(createMemoryProgressStore());
+  await loadProgress();
+  setStorageBackend({ ...createLocalBackend(), isPersistent: true });
+
+  posted = [];
+  uploadDelay = 0;
+  mockedUploadNote.mockReset();
+  mockedUploadNote.mockImplementation(async (msg, ...args) => {
+    await sleep(uploadDelay);
+    const ledger = args[args.length - 1] as { [id: string]: any };
+    const target = msg.reply_to_message_id;
+    return {
+      noteUri: `ipfs://${msg.id}`,
+      attachmentUris: [],
+      replyToNoteId:
+        target !== undefined ? ledger?.[target]?.noteId : undefined,
+    };
+  });
+  mockedPostNote.mockReset();
+  mockedPostNote.mockImplementation(async (uploadedNote) =>
+    postedNote(uploadedNote)
+  );
+  mockedPostNotes.mockReset();
+  mockedPostNotes.mockImplementation(async (uploadedNotes) =>
+    uploadedNotes.map((uploadedNote) => ({
+      status: "fulfilled" as const,
+      value: postedNote(uploadedNote),
+    }))
+  );
+});
+
+describe("migrateMessages", () => {
+  it("posts every message in order and records it", async () => {
+    uploadDelay = 5;
+    const failed = await run(7, { notesInFlight: 3, uploadConcurrency: 2 });
+    expect(failed).toBe(0);
+    expect(posted).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    // Groups of 3, the last note alone
+    expect(mockedPostNotes).toHaveBeenCalledTimes(2);
+    expect(mockedPostNote).toHaveBeenCalledTimes(1);
+    expect(getChatProgress(chat.id).ledger[7].noteId).toBe(107);
+  });
+
+  it("skips messages already migrated", async () => {
+    await run(3, { notesInFlight: 1 });
+    posted = [];
+    await run(4, { notesInFlight: 1 });
+    expect(posted).toEqual([4]);
+  });
+
+  it("posts a reply after its target, as a comment of it", async () => {
+    chat.messages = [
+      message(1),
+      message(2, { reply_to_message_id: 1 }),
+      message(3),
+    ];
+    await migrateMessages(
+      chat.messages.map((msg) => ({ chat, message: msg })),
+      settingsOf({ notesInFlight: 3 })
+    );
+    expect(posted).toEqual([1, 2, 3]);
+    // Not in the same group as its target
+    expect(mockedPostNote.mock.calls[0][0].noteUri).toBe("ipfs://1");
+    const uploaded = await Promise.all(
+      mockedUploadNote.mock.results.map((result) => result.value)
+    );
+    expect(uploaded).toContainEqual(
+      expect.objectContaining({ noteUri: "ipfs://2", replyToNoteId: 101 })
+    );
+  });
+
+  it("records failures and goes on with continueOnError", async () => {
+    mockedPostNote.mockImplementation(async (uploadedNote) => {
+      if (uploadedNote.noteUri === "ipfs://2") {
+        throw new Error("execution reverted");
+      }
+      return postedNote(uploadedNote);
+    });
+    const failed = await run(3, { notesInFlight: 1, continueOnError: true });
+    expect(failed).toBe(1);
+    expect(posted).toEqual([1, 3]);
+    expect(getChatProgress(chat.id).failures?.[2].reason).toBe(
+      "execution reverted"
+    );
+  });
+
+  it("stops at the first failure without continueOnError", async () => {
+    mockedPostNote.mockImplementation(async (uploadedNote) => {
+      if (uploadedNote.noteUri === "ipfs://2") {
+        throw new Error("execution reverted");
+      }
+      return postedNote(uploadedNote);
+    });
+    await expect(run(3, { notesInFlight: 1 })).rejects.toThrow(
+      "execution reverted"
+    );
+    expect(posted).toEqual([1]);
+  });
+
+  it("retries transient errors", async () => {
+    let attempts = 0;
+    mockedPostNote.mockImplementation(async (uploadedNote) => {
+      if (attempts++ === 0) {
+        throw new Error("network error");
+      }
+      return postedNote(uploadedNote);
+    });
+    const onRetry = jest.fn();
+    const failed = await run(1, { retryCount: 1 }, { onRetry });
+    expect(failed).toBe(0);
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(posted).toEqual([1]);
+  });
+
+  it("posts notes left unsent by a failed send on their own", async () => {
+    mockedPostNotes.mockImplementation(async (uploadedNotes) => [
+      { status: "fulfilled", value: postedNote(uploadedNotes[0]) },
+      { status: "rejected", reason: new Error("insufficient funds") },
+      ...uploadedNotes.slice(2).map(() => ({
+        status: "rejected" as const,
+        reason: new NoteNotSentError(new Error("insufficient funds")),
+      })),
+    ]);
+    const failed = await run(4, { notesInFlight: 4, continueOnError: true });
+    expect(failed).toBe(1);
+    expect(posted).toEqual([1, 3, 4]);
+  });
+
+  it("settles when cancelled with more notes in flight than uploads", async () => {
+    uploadDelay = 20;
+    const control = createMigrateControl();
+    const migrated = jest.fn();
+    const result = run(
+      20,
+      { notesInFlight: 5, uploadConcurrency: 1 },
+      { onMigrated: migrated },
+      control
+    );
+    await sleep(120);
+    control.cancel();
+    await expect(result).resolves.toBe(0);
+    expect(migrated.mock.calls.length).toBeLessThan(20);
+    expect(Object.keys(getChatProgress(chat.id).ledger).length).toBe(
+      posted.length
+    );
+  });
+
+  it("pauses with more notes in flight than uploads, then resumes", async () => {
+    uploadDelay = 20;
+    const control = createMigrateControl();
+    let paused = () => {};
+    const isPaused = new Promise<void>((resolve) => {
+      paused = resolve;
+    });
+    const result = run(
+      20,
+      { notesInFlight: 5, uploadConcurrency: 1 },
+      { onPaused: () => paused() },
+      control
+    );
+    await sleep(120);
+    control.pause();
+    await isPaused;
+    const postedWhilePaused = posted.length;
+    expect(postedWhilePaused).toBeLessThan(20);
+    await sleep(100);
+    expect(posted.length).toBe(postedWhilePaused);
+
+    control.resume();
+    await expect(result).resolves.toBe(0);
+    expect(posted).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+  });
+});
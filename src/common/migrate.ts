@@ -0,0 +1,534 @@
+import {
+  findPostedNote,
+  GetMessageLink,
+  NoteNotSentError,
+  ParseMessageText,
+  PostedNote,
+  signerPostUploadedNote,
+  signerPostUploadedNotes,
+  TGExportMessageDataWithPhotos,
+  UploadedNote,
+  uploadNote,
+} from "./contract";
+import {
+  ExportChat,
+  getChatChannelName,
+  getMessageIds,
+  getPinnedTarget,
+  getReplyTarget,
+  isAggregateMigrated,
+} from "./messages";
+import {
+  getChatProgress,
+  getMessageOverride,
+  markMessageFailed,
+  markMessageMigrated,
+  Setting,
+} from "./session";
+import { isTransientError, RetryError, RetryOptions, withRetry } from "./retry";
+import { getStorageBackend, StorageError } from "./ipfs";
+import { GetLinkedMessageIds } from "./rules";
+
+export interface MigrateResult {
+  // skipped: already in ledger / recovered: found on indexer / posted: new note
+  status: "skipped" | "recovered" | "posted";
+  postedNote?: PostedNote;
+}
+
+export interface MigrateItem {
+  chat: ExportChat;
+  message: TGExportMessageDataWithPhotos;
+}
+
+// Called with the index of the item in the list given to migrateMessages
+export interface MigrateHandlers {
+  onPosting?: (index: number) => void;
+  onMigrated?: (index: number, result: MigrateResult) => void;
+  // Thrown away after this unless continueOnError
+  onFailed?: (index: number, e: RetryError) => void;
+  onRetry?: (index: number, e: any, attempt: number, delay: number) => void;
+  // Awaited before each group with the number of items left to post, the run
+  // pauses until it resolves and stops if it rejects
+  beforePosting?: (remaining: number) => Promise<void>;
+  // Notes in flight are done and it's waiting to be resumed
+  onPaused?: () => void;
+}
+
+// Either of them
+interface Outcome {
+  result?: MigrateResult;
+  error?: RetryError;
+}
+
+const toOutcome = (promise: Promise<MigrateResult>): Promise<Outcome> =>
+  promise.then(
+    (result) => ({ result }),
+    (error) => ({ error })
+  );
+
+// Done before posting, or uploaded and waiting to be posted
+type PreparedMessage =
+  | { status: "skipped" | "recovered"; postedNote?: PostedNote }
+  | { status: "uploaded"; uploadedNote: UploadedNote };
+
+const recover = async (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos,
+  settings: Setting
+): Promise<PostedNote | undefined> => {
+  const channelName = getChatChannelName(chat, settings);
+  if (!channelName) {
+    return undefined;
+  }
+
+  const postedNote = await findPostedNote(GetMessageLink(channelName, message));
+  if (postedNote) {
+    markMessageMigrated(chat.id, getMessageIds(message), postedNote);
+  }
+  return postedNote;
+};
+
+const prepareMessage = async (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos,
+  settings: Setting
+): Promise<PreparedMessage> => {
+  const chatProgress = getChatProgress(chat.id);
+  if (isAggregateMigrated(chatProgress, message)) {
+    return { status: "skipped" };
+  }
+
+  const postedNote = await recover(chat, message, settings);
+  if (postedNote) {
+    return { status: "recovered", postedNote };
+  }
+
+  const uploadedNote = await uploadNote(
+    message,
+    getChatChannelName(chat, settings),
+    settings,
+    getReplyTarget(chat, message, chatProgress),
+    getPinnedTarget(chat, message, chatProgress),
+    getMessageOverride(chatProgress, message.id),
+    chatProgress.ledger
+  );
+  return { status: "uploaded", uploadedNote };
+};
+
+const postMessage = async (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos,
+  settings: Setting,
+  uploadedNote: UploadedNote,
+  isRetry: boolean
+): Promise<MigrateResult> => {
+  if (isRetry) {
+    // The failed attempt may have posted it anyway
+    const postedNote = await recover(chat, message, settings);
+    if (postedNote) {
+      return { status: "recovered", postedNote };
+    }
+  }
+
+  const postedNote = await signerPostUploadedNote(uploadedNote);
+  markMessageMigrated(chat.id, getMessageIds(message), postedNote);
+  return { status: "posted", postedNote };
+};
+
+const recordFailure = (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos,
+  error: RetryError
+) => {
+  markMessageFailed(chat.id, {
+    messageId: message.id,
+    reason: error.message,
+    isTransient: error.isTransient,
+    attempts: error.attempts,
+  });
+};
+
+// Each stage retries transient errors on its own, the last error is recorded
+// as the failure reason and thrown as a RetryError
+const retryStage = async <T>(
+  { chat, message }: MigrateItem,
+  settings: Setting,
+  fn: (attempt: number) => Promise<T>,
+  onRetry?: RetryOptions["onRetry"]
+): Promise<T> => {
+  let attempt = 0;
+  try {
+    return await withRetry(() => fn(++attempt), {
+      retryCount: settings.retryCount,
+      onRetry,
+    });
+  } catch (e: any) {
+    recordFailure(chat, message, e);
+    throw e;
+  }
+};
+
+interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+}
+
+const createDeferred = <T>(): Deferred<T> => {
+  let resolve: (value: T) => void = () => {};
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+};
+
+const createSemaphore = (size: number) => {
+  let available = Math.max(1, size);
+  const waiting: (() => void)[] = [];
+  return {
+    acquire: async () => {
+      if (available > 0) {
+        available--;
+        return;
+      }
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    },
+    release: () => {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        available++;
+      }
+    },
+  };
+};
+
+const itemKey = (chatId: number, messageId: number) => `${chatId}-${messageId}`;
+
+// Pauses or cancels a run after the notes in flight
+export interface MigrateControl {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  isCancelled: () => boolean;
+  // Resolves at once unless paused
+  untilResumed: () => Promise<void>;
+}
+
+export const createMigrateControl = (): MigrateControl => {
+  let isPaused = false;
+  let isCancelled = false;
+  let resumed = createDeferred<void>();
+
+  const release = () => {
+    resumed.resolve();
+    resumed = createDeferred<void>();
+  };
+
+  return {
+    pause: () => {
+      isPaused = !isCancelled;
+    },
+    resume: () => {
+      isPaused = false;
+      release();
+    },
+    cancel: () => {
+      isCancelled = true;
+      isPaused = false;
+      release();
+    },
+    isPaused: () => isPaused,
+    isCancelled: () => isCancelled,
+    untilResumed: () => (isPaused ? resumed.promise : Promise.resolve()),
+  };
+};
+
+// Uploads run ahead with settings.uploadConcurrency at a time, while notes
+// are posted in the order of items, settings.notesInFlight at a time. Resolves
+// with the number of failed items, or rejects with the first failure unless
+// continueOnError. Items not posted when cancelled are left as they are.
+export const migrateMessages = async (
+  items: MigrateItem[],
+  settings: Setting,
+  handlers: MigrateHandlers = {},
+  control: MigrateControl = createMigrateControl()
+): Promise<number> => {
+  const backend = getStorageBackend();
+  if (!backend.isPersistent) {
+    // Notes on chain would point at content nobody can fetch
+    throw new StorageError(
+      backend.name,
+      "uploads are gone after this session, it's for dry runs only"
+    );
+  }
+
+  const prepared = items.map(() =>
+    createDeferred<{ value?: PreparedMessage; error?: RetryError }>()
+  );
+  // Settled after the item is posted or given up
+  const settled = items.map(() => createDeferred<void>());
+  // Aggregated ones under each of their messages
+  const indexes = new Map(
+    items.flatMap((item, index) =>
+      getMessageIds(item.message).map(
+        (id) => [itemKey(item.chat.id, id), index] as const
+      )
+    )
+  );
+  const semaphore = createSemaphore(settings.uploadConcurrency);
+  let isStopped = false;
+
+  const hasLinksRule = settings.contentRules.some(
+    (rule) => rule.type === "links"
+  );
+  // Rewritten into links to their notes, unless the text is edited
+  const linkedIds = (index: number): number[] => {
+    const { chat, message } = items[index];
+    const channelName = getChatChannelName(chat, settings);
+    if (
+      !hasLinksRule ||
+      !channelName ||
+      getMessageOverride(getChatProgress(chat.id), message.id)
+    ) {
+      return [];
+    }
+    return GetLinkedMessageIds(
+      ParseMessageText(message, settings),
+      channelName
+    );
+  };
+
+  // Earlier items in this run that replies, pins and links refer to
+  const targets = new Map<number, number[]>();
+  const targetIndexes = (index: number): number[] => {
+    if (!targets.has(index)) {
+      const { chat, message } = items[index];
+      targets.set(
+        index,
+        [
+          message.reply_to_message_id,
+          message.action === "pin_message" ? message.message_id : undefined,
+          ...linkedIds(index),
+        ]
+          .map((targetId) =>
+            targetId !== undefined
+              ? indexes.get(itemKey(chat.id, targetId))
+              : -1
+          )
+          .filter(
+            (targetIndex): targetIndex is number =>
+              targetIndex !== undefined &&
+              targetIndex >= 0 &&
+              targetIndex < index
+          )
+      );
+    }
+    return targets.get(index)!;
+  };
+
+  // They refer to the note of their target, wait for it to be posted
+  const waitForTargets = async (index: number) => {
+    for (const targetIndex of targetIndexes(index)) {
+      await settled[targetIndex].promise;
+    }
+  };
+
+  // Past the group being posted, which is uploaded even while paused
+  let groupEndIndex = 0;
+
+  const launch = async () => {
+    for (let index = 0; index < items.length; index++) {
+      // No more uploads while paused either
+      if (index >= groupEndIndex) {
+        await control.untilResumed();
+      }
+      await semaphore.acquire();
+      if (isStopped || control.isCancelled()) {
+        semaphore.release();
+        // Neither prepared nor failed, the loop stops before posting them
+        for (let rest = index; rest < items.length; rest++) {
+          prepared[rest].resolve({});
+        }
+        return;
+      }
+      const item = items[index];
+      waitForTargets(index)
+        .then(() =>
+          retryStage(
+            item,
+            settings,
+            () => prepareMessage(item.chat, item.message, settings),
+            (...args) => handlers.onRetry?.(index, ...args)
+          )
+        )
+        .then(
+          (value) => prepared[index].resolve({ value }),
+          (error) => prepared[index].resolve({ error })
+        )
+        .finally(semaphore.release);
+    }
+  };
+  launch();
+
+  // Notes in flight together, a group ends before an item referring to another
+  // one in it, whose upload waits for that one to be posted
+  const groupEnd = (start: number): number => {
+    let end = start + 1;
+    while (
+      end < items.length &&
+      end - start < settings.notesInFlight &&
+      targetIndexes(end).every((targetIndex) => targetIndex < start)
+    ) {
+      end++;
+    }
+    return end;
+  };
+
+  const postAlone = (
+    index: number,
+    uploadedNote: UploadedNote,
+    isRetry: boolean
+  ): Promise<Outcome> =>
+    toOutcome(
+      retryStage(
+        items[index],
+        settings,
+        (attempt) =>
+          postMessage(
+            items[index].chat,
+            items[index].message,
+            settings,
+            uploadedNote,
+            isRetry || attempt > 1
+          ),
+        (...args) => handlers.onRetry?.(index, ...args)
+      )
+    );
+
+  const postGroup = async (
+    group: number[],
+    preparedGroup: { value?: PreparedMessage; error?: RetryError }[]
+  ): Promise<Outcome[]> => {
+    const outcomes: Outcome[] = [];
+    const uploads: { position: number; uploadedNote: UploadedNote }[] = [];
+    preparedGroup.forEach(({ value, error }, position) => {
+      if (!value) {
+        outcomes[position] = { error };
+      } else if (value.status === "uploaded") {
+        uploads.push({ position, uploadedNote: value.uploadedNote });
+      } else {
+        outcomes[position] = { result: value };
+      }
+    });
+
+    if (uploads.length === 0) {
+      return outcomes;
+    }
+    if (uploads.length === 1) {
+      const { position, uploadedNote } = uploads[0];
+      outcomes[position] = await postAlone(
+        group[position],
+        uploadedNote,
+        false
+      );
+      return outcomes;
+    }
+
+    let posted: PromiseSettledResult<PostedNote>[];
+    try {
+      posted = await signerPostUploadedNotes(
+        uploads.map(({ uploadedNote }) => uploadedNote)
+      );
+    } catch (e: any) {
+      posted = uploads.map(() => ({ status: "rejected", reason: e }));
+    }
+
+    // Failed ones are retried alone afterwards, in order, so they may land
+    // after the rest of the group. Those left unsent behind them go alone too.
+    for (let i = 0; i < uploads.length; i++) {
+      const { position, uploadedNote } = uploads[i];
+      const { chat, message } = items[group[position]];
+      const postedResult = posted[i];
+      if (postedResult.status === "fulfilled") {
+        markMessageMigrated(
+          chat.id,
+          getMessageIds(message),
+          postedResult.value
+        );
+        outcomes[position] = {
+          result: { status: "posted", postedNote: postedResult.value },
+        };
+      } else if (postedResult.reason instanceof NoteNotSentError) {
+        outcomes[position] = await postAlone(
+          group[position],
+          uploadedNote,
+          false
+        );
+      } else if (isTransientError(postedResult.reason)) {
+        outcomes[position] = await postAlone(
+          group[position],
+          uploadedNote,
+          true
+        );
+      } else {
+        const error = new RetryError(postedResult.reason, 1, false);
+        recordFailure(chat, message, error);
+        outcomes[position] = { error };
+      }
+    }
+    return outcomes;
+  };
+
+  let failedCount = 0;
+  try {
+    for (let start = 0; start < items.length; ) {
+      while (control.isPaused()) {
+        handlers.onPaused?.();
+        await control.untilResumed();
+      }
+      if (control.isCancelled()) {
+        break;
+      }
+
+      const end = groupEnd(start);
+      groupEndIndex = end;
+      const group = items.slice(start, end).map((_, i) => start + i);
+      const preparedGroup = await Promise.all(
+        group.map((index) => prepared[index].promise)
+      );
+      if (control.isPaused() || control.isCancelled()) {
+        // Posted once resumed, or left as they are
+        continue;
+      }
+
+      await handlers.beforePosting?.(items.length - start);
+      group.forEach((index) => handlers.onPosting?.(index));
+      const outcomes = await postGroup(group, preparedGroup);
+
+      let firstError: RetryError | undefined;
+      outcomes.forEach(({ result, error }, position) => {
+        const index = group[position];
+        if (result) {
+          handlers.onMigrated?.(index, result);
+        } else {
+          handlers.onFailed?.(index, error!);
+          failedCount++;
+          firstError = firstError || error;
+        }
+        settled[index].resolve();
+      });
+      if (firstError && !settings.continueOnError) {
+        throw firstError;
+      }
+
+      start = end;
+    }
+  } finally {
+    // Uploads in flight are left to finish, they're cached anyway
+    isStopped = true;
+  }
+
+  return failedCount;
+};
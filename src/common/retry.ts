@@ -0,0 +1,88 @@
+import { StorageError } from "./ipfs";
+
+export interface RetryOptions {
+  // Attempts after the first one
+  retryCount: number;
+  // Doubled after each attempt
+  baseDelay?: number;
+  maxDelay?: number;
+  onRetry?: (e: any, attempt: number, delay: number) => void;
+}
+
+// Thrown after the last attempt, with what went wrong in the end
+export class RetryError extends Error {
+  cause: any;
+  attempts: number;
+  isTransient: boolean;
+
+  constructor(cause: any, attempts: number, isTransient: boolean) {
+    super(cause?.message || `${cause}`);
+    this.name = "RetryError";
+    this.cause = cause;
+    this.attempts = attempts;
+    this.isTransient = isTransient;
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, RetryError.prototype);
+  }
+}
+
+// ethers v5 error codes worth another try
+const transientCodes = [
+  "NETWORK_ERROR",
+  "SERVER_ERROR",
+  "TIMEOUT",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "TRANSACTION_REPLACED",
+];
+
+const transientMessages =
+  /failed to fetch|fetch failed|network ?error|timed? ?out|ECONNRESET|ETIMEDOUT|ECONNREFUSED|socket hang up|nonce|underpriced|rate limit|too many requests|bad gateway|service unavailable|gateway timeout/i;
+
+// Network failures, 5xx responses and nonce or gas price races pass with
+// time, while reverts, missing files or bad settings need a human
+export const isTransientError = (e: any): boolean => {
+  if (e instanceof RetryError) {
+    return e.isTransient;
+  }
+  if (e instanceof StorageError) {
+    return e.status === undefined || e.status === 429 || e.status >= 500;
+  }
+  if (transientCodes.includes(e?.code)) {
+    return true;
+  }
+  const status = e?.status ?? e?.response?.status;
+  if (typeof status === "number") {
+    return status === 429 || status >= 500;
+  }
+  return transientMessages.test(`${e?.message || e}`);
+};
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
+export const withRetry = async <T>(
+  fn: () => Promise<T>,
+  { retryCount, baseDelay = 1000, maxDelay = 30000, onRetry }: RetryOptions
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e: any) {
+      const isTransient = isTransientError(e);
+      if (!isTransient || attempt > retryCount) {
+        throw new RetryError(e, attempt, isTransient);
+      }
+
+      // Jitter keeps parallel clients apart
+      const delay = Math.min(
+        maxDelay,
+        baseDelay * Math.pow(2, attempt - 1) * (0.5 + Math.random() / 2)
+      );
+      onRetry?.(e, attempt, delay);
+      await sleep(delay);
+    }
+  }
+};
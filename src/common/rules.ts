@@ -0,0 +1,127 @@
+import { escapeMarkdown } from "./markdown";
+import type { TGExportMessageData } from "./contract";
+
+export type ContentRuleType =
+  | "replace"
+  | "signature"
+  | "links"
+  | "prepend"
+  | "append";
+
+export const ContentRuleTypeLabels: { [type in ContentRuleType]: string } = {
+  replace: "Find and replace",
+  signature: "Strip trailing signature",
+  links: "Rewrite links to migrated messages",
+  prepend: "Prepend template",
+  append: "Append template",
+};
+
+// Applied in order to the parsed Markdown of each message
+export interface ContentRule {
+  type: ContentRuleType;
+  // Regex for replace and signature, template for prepend and append
+  pattern: string;
+  // Replace only, $1 and such are groups of the pattern
+  replacement: string;
+}
+
+// Replaced in prepend and append templates
+export const ContentRulePlaceholders: { [placeholder: string]: string } = {
+  "{date}": "Date of the message, like 2022-10-01",
+  "{id}": "Message ID",
+  "{link}": "Link to the original message",
+};
+
+export interface ContentRuleContext {
+  message: TGExportMessageData;
+  channelName: string;
+  // Crossbell link of a migrated message in the same chat
+  getNoteLink: (messageId: number) => string | undefined;
+}
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Throws a SyntaxError on an invalid regex, so check it first
+export const compileContentRule = (rule: ContentRule): RegExp | null => {
+  if (!rule.pattern) {
+    return null;
+  }
+
+  switch (rule.type) {
+    case "replace":
+      return new RegExp(rule.pattern, "gm");
+    case "signature":
+      // Along with the blank lines before it
+      return new RegExp(`\\s*(?:${rule.pattern})\\s*$`);
+    default:
+      return null;
+  }
+};
+
+// Both as a link target and as escaped text
+const compileMessageLink = (channelName: string): RegExp => {
+  const names = [channelName, escapeMarkdown(channelName)].map(escapeRegExp);
+  return new RegExp(`(?:https?://)?t\\.me/(?:${names.join("|")})/(\\d+)`, "gi");
+};
+
+// Messages of the channel linked in content, what the links rule rewrites
+export const GetLinkedMessageIds = (
+  content: string,
+  channelName: string
+): number[] =>
+  Array.from(content.matchAll(compileMessageLink(channelName)), (match) =>
+    parseInt(match[1])
+  );
+
+const FillTemplate = (
+  template: string,
+  { message, channelName }: ContentRuleContext
+): string =>
+  template
+    .replace(/{date}/g, message.date.slice(0, 10))
+    .replace(/{id}/g, `${message.id}`)
+    .replace(
+      /{link}/g,
+      channelName ? `https://t.me/${channelName}/${message.id}` : ""
+    );
+
+const ApplyContentRule = (
+  content: string,
+  rule: ContentRule,
+  context: ContentRuleContext
+): string => {
+  const regex = compileContentRule(rule);
+  switch (rule.type) {
+    case "replace":
+      return regex ? content.replace(regex, rule.replacement) : content;
+    case "signature":
+      return regex ? content.replace(regex, "") : content;
+    case "links":
+      // Links to other channels and unmigrated messages are kept
+      return context.channelName
+        ? content.replace(
+            compileMessageLink(context.channelName),
+            (link, id) => context.getNoteLink(parseInt(id)) || link
+          )
+        : content;
+    case "prepend":
+      return [FillTemplate(rule.pattern, context), content]
+        .filter((part) => !!part)
+        .join("\n\n");
+    case "append":
+      return [content, FillTemplate(rule.pattern, context)]
+        .filter((part) => !!part)
+        .join("\n\n");
+  }
+};
+
+export const ApplyContentRules = (
+  content: string,
+  rules: ContentRule[],
+  context: ContentRuleContext
+): string =>
+  rules.reduce(
+    (result, rule) => ApplyContentRule(result, rule, context),
+    content
+  );
@@ -0,0 +1,217 @@
+import type { TGExportMessageData } from "./contract";
+import { escapeMarkdown, renderLink } from "./markdown";
+import { FormatDuration } from "./media";
+
+// Service actions in Telegram exports, with labels shown in Settings
+export const ServiceActionLabels: { [action: string]: string } = {
+  create_group: "Group created",
+  create_channel: "Channel created",
+  migrate_to_supergroup: "Converted to supergroup",
+  migrate_from_group: "Converted from group",
+  edit_group_title: "Title changed",
+  edit_group_photo: "Photo changed",
+  delete_group_photo: "Photo removed",
+  invite_members: "Members added",
+  remove_members: "Members removed or left",
+  join_group_by_link: "Joined by link",
+  join_group_by_request: "Join request accepted",
+  pin_message: "Message pinned",
+  clear_history: "History cleared",
+  set_messages_ttl: "Auto-delete timer",
+  set_chat_theme: "Theme changed",
+  set_chat_wallpaper: "Wallpaper changed",
+  phone_call: "Calls",
+  group_call: "Video chats",
+  invite_to_group_call: "Video chat invitations",
+  group_call_scheduled: "Video chats scheduled",
+  topic_created: "Topic created",
+  topic_edit: "Topic edited",
+  take_screenshot: "Screenshots",
+  contact_signup: "Contact joined Telegram",
+  proximity_reached: "Proximity alerts",
+  score_in_game: "Game scores",
+  send_payment: "Payments",
+  gift_premium: "Premium gifts",
+  boost_apply: "Boosts",
+  allow_sending_messages: "Bot allowed to message",
+};
+
+// Pinned message of a pin_message action
+export interface PinnedMessage {
+  // Plain text excerpt, if it has text
+  text?: string;
+  // Its migrated note or original message
+  link?: string;
+}
+
+const quote = (text: string): string => `“${escapeMarkdown(text)}”`;
+
+const joinNames = (names: (string | null)[]): string => {
+  const escaped = names.map((name) =>
+    escapeMarkdown(name || "Deleted Account")
+  );
+  return escaped.length > 1
+    ? `${escaped.slice(0, -1).join(", ")} and ${escaped[escaped.length - 1]}`
+    : escaped.join("");
+};
+
+const formatPeriod = (seconds: number): string => {
+  const units: [number, string][] = [
+    [365 * 86400, "year"],
+    [30 * 86400, "month"],
+    [7 * 86400, "week"],
+    [86400, "day"],
+    [3600, "hour"],
+    [60, "minute"],
+  ];
+  for (const [size, unit] of units) {
+    if (seconds >= size && seconds % size === 0) {
+      const count = seconds / size;
+      return `${count} ${unit}${count > 1 ? "s" : ""}`;
+    }
+  }
+  return `${seconds} seconds`;
+};
+
+const renderPin = (actor: string, pinned?: PinnedMessage): string => {
+  const target = pinned?.text ? `“${pinned.text}”` : "a message";
+  return pinned?.link
+    ? `📌 ${actor} pinned ${renderLink(target, pinned.link)}`
+    : `📌 ${actor} pinned ${escapeMarkdown(target)}`;
+};
+
+const renderCall = (actor: string, message: TGExportMessageData): string => {
+  switch (message.discard_reason) {
+    case "missed":
+      return `📞 Missed call from ${actor}`;
+    case "busy":
+      return `📞 ${actor} called, but the line was busy`;
+    default:
+      return message.duration_seconds
+        ? `📞 ${actor} made a call (${FormatDuration(
+            message.duration_seconds
+          )})`
+        : `📞 ${actor} made a call`;
+  }
+};
+
+export const RenderServiceMessage = (
+  message: TGExportMessageData,
+  pinned?: PinnedMessage
+): string => {
+  const actor = escapeMarkdown(message.actor || "Someone");
+  const members = message.members || [];
+  const isSelf = members.length === 1 && members[0] === message.actor;
+
+  switch (message.action) {
+    case "create_group":
+      return members.length > 0
+        ? `${actor} created the group ${quote(
+            message.title || ""
+          )} with ${joinNames(members)}`
+        : `${actor} created the group ${quote(message.title || "")}`;
+    case "create_channel":
+      return `Channel ${quote(message.title || "")} created`;
+    case "migrate_to_supergroup":
+      return "Group converted to a supergroup";
+    case "migrate_from_group":
+      return `Supergroup created from the group ${quote(message.title || "")}`;
+    case "edit_group_title":
+      return `${actor} renamed the chat to ${quote(message.title || "")}`;
+    case "edit_group_photo":
+      return `${actor} changed the chat photo`;
+    case "delete_group_photo":
+      return `${actor} removed the chat photo`;
+    case "invite_members":
+      return isSelf
+        ? `${actor} joined the group`
+        : `${actor} added ${joinNames(members)}`;
+    case "remove_members":
+      return isSelf
+        ? `${actor} left the group`
+        : `${actor} removed ${joinNames(members)}`;
+    case "join_group_by_link":
+      return message.inviter
+        ? `${actor} joined the group via invite link from ${escapeMarkdown(
+            message.inviter
+          )}`
+        : `${actor} joined the group via invite link`;
+    case "join_group_by_request":
+      return `${actor} was accepted into the group`;
+    case "pin_message":
+      return renderPin(actor, pinned);
+    case "clear_history":
+      return "History was cleared";
+    case "set_messages_ttl":
+      return message.period
+        ? `${actor} set messages to auto-delete after ${formatPeriod(
+            message.period
+          )}`
+        : `${actor} disabled the auto-delete timer`;
+    case "set_chat_theme":
+      return message.emoticon
+        ? `${actor} changed the chat theme to ${message.emoticon}`
+        : `${actor} disabled the chat theme`;
+    case "set_chat_wallpaper":
+    case "set_same_chat_wallpaper":
+      return `${actor} set a new chat wallpaper`;
+    case "phone_call":
+      return renderCall(actor, message);
+    case "group_call":
+      return message.duration_seconds
+        ? `🎙 Video chat ended (${FormatDuration(message.duration_seconds)})`
+        : `🎙 ${actor} started a video chat`;
+    case "invite_to_group_call":
+      return `🎙 ${actor} invited ${joinNames(members)} to the video chat`;
+    case "group_call_scheduled":
+      return message.schedule_date
+        ? `🎙 ${actor} scheduled a video chat for ${new Date(
+            message.schedule_date * 1000
+          ).toLocaleString()}`
+        : `🎙 ${actor} scheduled a video chat`;
+    case "topic_created":
+      return `${actor} created the topic ${quote(message.title || "")}`;
+    case "topic_edit":
+      return message.new_title
+        ? `${actor} renamed the topic to ${quote(message.new_title)}`
+        : `${actor} edited the topic`;
+    case "take_screenshot":
+      return `${actor} took a screenshot`;
+    case "contact_signup":
+      return `${actor} joined Telegram`;
+    case "proximity_reached":
+      return `${escapeMarkdown(message.from || "Someone")} is within ${
+        message.distance
+      } m of ${escapeMarkdown(message.to || "someone")}`;
+    case "score_in_game":
+      return `${actor} scored ${message.score}`;
+    case "send_payment":
+      return message.amount !== undefined
+        ? // Amount is in the smallest units of the currency
+          `${actor} sent a payment of ${(message.amount / 100).toFixed(2)} ${
+            message.currency || ""
+          }`.trimEnd()
+        : `${actor} sent a payment`;
+    case "gift_premium":
+      return message.months
+        ? `${actor} gifted Telegram Premium for ${message.months} months`
+        : `${actor} gifted Telegram Premium`;
+    case "boost_apply":
+      return `${actor} boosted the group${
+        message.boosts && message.boosts > 1 ? ` ${message.boosts} times` : ""
+      }`;
+    case "allow_sending_messages":
+      return `${actor} allowed this bot to send messages`;
+    default:
+      // Unknown to us, still better than nothing
+      return `${actor}: ${(message.action || "service message").replace(
+        /_/g,
+        " "
+      )}`;
+  }
+};
+
+export const isServiceActionIncluded = (
+  message: TGExportMessageData,
+  excludedActions: string[]
+): boolean => !excludedActions.includes(message.action || "");
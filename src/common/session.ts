@@ -1,44 +1,274 @@
+import type { PostedNote } from "./contract";
+import type { TagRule } from "./tags";
+import type { ContentRule } from "./rules";
+import type { StorageBackendType } from "./ipfs";
+import type { AggregateMediaType } from "./messages";
+import { openDB, promisify, promisifyTransaction } from "./db";
+
 export interface Setting {
   includeService: boolean;
+  // Service actions left out even when service notifications are included
+  excludedServiceActions: string[];
   aggregatedByTsp: boolean;
+  // Seconds between messages aggregated into one note
+  aggregateWindow: number;
+  // Media of later messages that may be aggregated
+  aggregateMediaTypes: AggregateMediaType[];
+  // Aggregate even when both have text, joined as paragraphs
+  aggregateJoinText: boolean;
   characterHandle: string;
   channelName: string;
+  // Channel names of chats in a full-account export, keyed by chat ID
+  chatChannelNames: { [chatId: string]: string };
+  stripHashtags: boolean;
+  // Extra tags by keyword, besides hashtags
+  tagRules: TagRule[];
+  forwardAttribution: string;
+  skipForwards: boolean;
+  // Applied to message text before it becomes a note
+  contentRules: ContentRule[];
+  // Attempts after the first one, for transient errors only
+  retryCount: number;
+  // Record failed messages and move on, instead of stopping
+  continueOnError: boolean;
+  // Messages uploading at the same time, ahead of posting
+  uploadConcurrency: number;
+  // Notes sent without waiting for the ones before to be mined, 1 to disable.
+  // Still a transaction each, it only saves waiting
+  notesInFlight: number;
+  // Where medias and notes are uploaded
+  storageBackend: StorageBackendType;
+  kuboApiUrl: string;
+}
+
+// What a migrated message became. Only messageId (and maybe noteId) is
+// known for messages migrated before the ledger was introduced.
+export interface LedgerEntry extends Partial<PostedNote> {
+  messageId: number;
+  migratedAt?: string; // ISO 8601
+}
+
+// Why a message couldn't be migrated, until it is
+export interface FailureEntry {
+  messageId: number;
+  reason: string;
+  isTransient: boolean;
+  attempts: number;
+  failedAt: string; // ISO 8601
+}
+
+// Edited by hand before posting
+export interface ContentOverride {
+  // Replaces the message text
+  content: string;
+  // Sources of the attachments kept, in order. All of them if undefined.
+  attachments?: string[];
+}
+
+export interface ChatProgress {
+  // One entry per migrated message, keyed by message ID
+  ledger: { [messageId: string]: LedgerEntry };
+  // Keyed by message ID too
+  failures?: { [messageId: string]: FailureEntry };
+  overrides?: { [messageId: string]: ContentOverride };
 }
 
 export interface Progress {
-  finishedIDs: number[];
+  // Keyed by chat ID, message IDs are only unique inside a chat
+  chats: { [chatId: string]: ChatProgress };
+}
+
+// Settings and progress of one channel and character
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+export interface ProfileSummary {
+  characterHandle: string;
+  channelName: string;
+  // Messages, aggregated ones count one by one
+  migrated: number;
+  failed: number;
 }
 
+interface ProfileIndex {
+  currentId: string;
+  profiles: Profile[];
+}
+
+// Where settings persist, localStorage in browser
+export interface SessionStore {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+// Where progress persists one entry at a time, IndexedDB in browser. Keys are
+// like "<profile ID>/<chat ID>/ledger/<message ID>".
+export interface ProgressStore {
+  load: () => Promise<{ [key: string]: any }>;
+  // Undefined values delete their records, all saved together
+  save: (records: { [key: string]: any }) => Promise<void>;
+}
+
+type ProgressRecordKind = keyof ChatProgress;
+
 const settingKey = "telegram2crossbell-setting";
+// Progress saved before multiple chats support, single chat only
+const legacyChatKey = "legacy";
+// Progress saved in the session store before, moved to the progress store
 const progressKey = "telegram2crossbell-session";
+const progressStoreName = "progress";
+const profilesKey = "telegram2crossbell-profiles";
+// Keeps the keys used before profiles, so nothing is lost
+const defaultProfileId = "default";
 let currentSetting: Setting | null = null;
-let currentProgress: Progress | null = null;
+// Of every profile, keyed by profile ID
+let progresses: { [profileId: string]: Progress } | null = null;
+let currentProfiles: ProfileIndex | null = null;
+let store: SessionStore | null = null;
+let progressStore: ProgressStore | null = null;
+
+const getStore = (): SessionStore => {
+  if (!store) {
+    store = localStorage;
+  }
+
+  return store;
+};
+
+export const setSessionStore = (newStore: SessionStore) => {
+  store = newStore;
+  currentSetting = null;
+  progresses = null;
+  currentProfiles = null;
+};
+
+export const createIndexedDBProgressStore = (): ProgressStore => ({
+  load: async () => {
+    const objectStore = (await openDB())
+      .transaction(progressStoreName, "readonly")
+      .objectStore(progressStoreName);
+    const [keys, values] = await Promise.all([
+      promisify(objectStore.getAllKeys()),
+      promisify(objectStore.getAll()),
+    ]);
+    const records: { [key: string]: any } = {};
+    keys.forEach((key, i) => {
+      records[key as string] = values[i];
+    });
+    return records;
+  },
+  save: async (records) => {
+    const transaction = (await openDB()).transaction(
+      progressStoreName,
+      "readwrite"
+    );
+    const objectStore = transaction.objectStore(progressStoreName);
+    for (const [key, value] of Object.entries(records)) {
+      if (value === undefined) {
+        objectStore.delete(key);
+      } else {
+        objectStore.put(value, key);
+      }
+    }
+    await promisifyTransaction(transaction);
+  },
+});
+
+export const createMemoryProgressStore = (
+  records: { [key: string]: any } = {}
+): ProgressStore => ({
+  load: async () => ({ ...records }),
+  save: async (changes) => {
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === undefined) {
+        delete records[key];
+      } else {
+        records[key] = value;
+      }
+    }
+  },
+});
+
+const getProgressStore = (): ProgressStore => {
+  if (!progressStore) {
+    progressStore =
+      typeof indexedDB !== "undefined"
+        ? createIndexedDBProgressStore()
+        : createMemoryProgressStore();
+  }
+
+  return progressStore;
+};
+
+export const setProgressStore = (newStore: ProgressStore) => {
+  progressStore = newStore;
+  progresses = null;
+};
+
+const getProfileIndex = (): ProfileIndex => {
+  if (!currentProfiles) {
+    const storedProfiles = getStore().getItem(profilesKey);
+    currentProfiles = storedProfiles
+      ? JSON.parse(storedProfiles)
+      : {
+          currentId: defaultProfileId,
+          profiles: [{ id: defaultProfileId, name: "Default" }],
+        };
+  }
+
+  return currentProfiles!;
+};
+
+const setProfileIndex = (profiles: ProfileIndex) => {
+  currentProfiles = profiles;
+  getStore().setItem(profilesKey, JSON.stringify(profiles));
+};
+
+const getProfileKey = (
+  key: string,
+  profileId: string = getProfileIndex().currentId
+): string => (profileId === defaultProfileId ? key : `${key}-${profileId}`);
 
 const initSetting = () => {
-  const storedSetting = localStorage.getItem(settingKey);
+  const storedSetting = getStore().getItem(getProfileKey(settingKey));
+  const defaultSetting: Setting = {
+    includeService: false,
+    excludedServiceActions: [],
+    aggregatedByTsp: false,
+    aggregateWindow: 5,
+    aggregateMediaTypes: ["photo"],
+    aggregateJoinText: false,
+    characterHandle: "",
+    channelName: "",
+    chatChannelNames: {},
+    stripHashtags: false,
+    tagRules: [],
+    forwardAttribution: "*Forwarded from {source}*",
+    skipForwards: false,
+    contentRules: [],
+    retryCount: 3,
+    continueOnError: false,
+    uploadConcurrency: 3,
+    notesInFlight: 1,
+    storageBackend: "relay",
+    kuboApiUrl: "http://127.0.0.1:5001",
+  };
   if (storedSetting) {
-    currentSetting = JSON.parse(storedSetting);
-  } else {
-    // Initialize
+    // Fill fields added after it was saved
     currentSetting = {
-      includeService: false,
-      aggregatedByTsp: false,
-      characterHandle: "",
-      channelName: "",
+      ...defaultSetting,
+      ...JSON.parse(storedSetting),
     };
-    localStorage.setItem(settingKey, JSON.stringify(currentSetting));
-  }
-};
-
-const initProgress = () => {
-  const storedProgress = localStorage.getItem(progressKey);
-  if (storedProgress) {
-    currentProgress = JSON.parse(storedProgress);
   } else {
-    currentProgress = {
-      finishedIDs: [],
-    };
-    localStorage.setItem(progressKey, JSON.stringify(currentProgress));
+    // Initialize
+    currentSetting = defaultSetting;
+    getStore().setItem(
+      getProfileKey(settingKey),
+      JSON.stringify(currentSetting)
+    );
   }
 };
 
@@ -50,30 +280,360 @@ export const getSetting = (): Setting => {
   return currentSetting!;
 };
 
+const recordKey = (
+  profileId: string,
+  chatId: string,
+  kind: ProgressRecordKind,
+  messageId: number | string
+): string => `${profileId}/${chatId}/${kind}/${messageId}`;
+
+// Saving is left behind, the progress in memory is up to date either way
+const saveRecords = (records: { [key: string]: any }) => {
+  getProgressStore()
+    .save(records)
+    .catch((e) => console.error("Failed to save progress: ", e));
+};
+
+const chatRecords = (
+  profileId: string,
+  chatId: string,
+  chatProgress: ChatProgress
+): { [key: string]: any } => {
+  const records: { [key: string]: any } = {};
+  for (const kind of ["ledger", "failures", "overrides"] as const) {
+    for (const [messageId, value] of Object.entries(chatProgress[kind] || {})) {
+      records[recordKey(profileId, chatId, kind, messageId)] = value;
+    }
+  }
+  return records;
+};
+
+const profileRecords = (
+  profileId: string,
+  progress?: Progress
+): { [key: string]: any } =>
+  Object.assign(
+    {},
+    ...Object.entries(progress?.chats || {}).map(([chatId, chatProgress]) =>
+      chatRecords(profileId, chatId, chatProgress)
+    )
+  );
+
+// Every key of them, to delete them
+const deletions = (records: { [key: string]: any }): { [key: string]: any } =>
+  Object.fromEntries(Object.keys(records).map((key) => [key, undefined]));
+
+const normalizeChatProgress = (storedChatProgress: any): ChatProgress => {
+  if (storedChatProgress.ledger) {
+    return storedChatProgress;
+  }
+
+  // Saved before the ledger, only IDs are known
+  const ledger: ChatProgress["ledger"] = {};
+  for (const messageId of storedChatProgress.finishedIDs || []) {
+    ledger[messageId] = {
+      messageId,
+      noteId: storedChatProgress.noteIDs?.[messageId],
+    };
+  }
+  return { ledger };
+};
+
+// From the whole progress saved in the session store before
+const parseStoredProgress = (storedProgress: string): Progress => {
+  const parsedProgress = JSON.parse(storedProgress);
+  const chats: { [chatId: string]: any } = parsedProgress.chats || {
+    [legacyChatKey]: parsedProgress,
+  };
+  return {
+    chats: Object.fromEntries(
+      Object.entries(chats).map(([chatId, storedChatProgress]) => [
+        chatId,
+        normalizeChatProgress(storedChatProgress),
+      ])
+    ),
+  };
+};
+
+// Before anything reads progress, in browser and CLI alike
+export const loadProgress = async () => {
+  const loaded: { [profileId: string]: Progress } = {};
+  const records = await getProgressStore().load();
+  for (const [key, value] of Object.entries(records)) {
+    const [profileId, chatId, kind, messageId] = key.split("/") as [
+      string,
+      string,
+      ProgressRecordKind,
+      string
+    ];
+    const chats = (loaded[profileId] = loaded[profileId] || { chats: {} })
+      .chats;
+    const chatProgress = (chats[chatId] = chats[chatId] || { ledger: {} });
+    const entries: { [messageId: string]: any } = chatProgress[kind] || {};
+    entries[messageId] = value;
+    chatProgress[kind] = entries;
+  }
+
+  // Moved over once, it's kept until saved in the progress store
+  for (const { id } of getProfileIndex().profiles) {
+    const storedProgress = getStore().getItem(getProfileKey(progressKey, id));
+    if (!storedProgress) {
+      continue;
+    }
+    loaded[id] = parseStoredProgress(storedProgress);
+    await getProgressStore().save(profileRecords(id, loaded[id]));
+    getStore().removeItem(getProfileKey(progressKey, id));
+  }
+
+  progresses = loaded;
+};
+
+const getProgresses = (): { [profileId: string]: Progress } => {
+  if (!progresses) {
+    throw new Error("Progress not loaded, call loadProgress first.");
+  }
+
+  return progresses;
+};
+
 export const getProgress = (): Progress => {
-  if (!currentProgress) {
-    initProgress();
+  const profileId = getProfileIndex().currentId;
+  const loaded = getProgresses();
+  if (!loaded[profileId]) {
+    loaded[profileId] = { chats: {} };
+  }
+  return loaded[profileId];
+};
+
+// Updated in place as messages are migrated
+export const getChatProgress = (chatId: number): ChatProgress => {
+  const { chats } = getProgress();
+  if (!chats[chatId]) {
+    chats[chatId] = { ledger: {} };
   }
+  return chats[chatId];
+};
 
-  return currentProgress!;
+// Gives legacy progress to the chat it came from, unless it has its own
+export const claimLegacyProgress = (chatId: number) => {
+  const { chats } = getProgress();
+  const legacyChatProgress = chats[legacyChatKey];
+  const chatProgress = chats[chatId];
+  const isEmpty =
+    !chatProgress ||
+    (Object.keys(chatProgress.ledger).length === 0 &&
+      Object.keys(chatProgress.failures || {}).length === 0 &&
+      Object.keys(chatProgress.overrides || {}).length === 0);
+  if (legacyChatProgress && isEmpty) {
+    const profileId = getProfileIndex().currentId;
+    const legacyRecords = chatRecords(
+      profileId,
+      legacyChatKey,
+      legacyChatProgress
+    );
+    chats[chatId] = legacyChatProgress;
+    delete chats[legacyChatKey];
+    saveRecords({
+      ...deletions(legacyRecords),
+      ...chatRecords(profileId, `${chatId}`, legacyChatProgress),
+    });
+  }
+};
+
+// Sets the records of a chat, undefined ones are deleted
+const updateChatProgress = (
+  chatId: number,
+  kind: ProgressRecordKind,
+  entries: { [messageId: string]: any }
+) => {
+  const chatProgress = getChatProgress(chatId);
+  const profileId = getProfileIndex().currentId;
+  const records: { [key: string]: any } = {};
+  const current: { [messageId: string]: any } = chatProgress[kind] || {};
+  chatProgress[kind] = current;
+  for (const [messageId, value] of Object.entries(entries)) {
+    if (value === undefined) {
+      delete current[messageId];
+    } else {
+      current[messageId] = value;
+    }
+    records[recordKey(profileId, `${chatId}`, kind, messageId)] = value;
+  }
+  saveRecords(records);
+};
+
+export const isMessageMigrated = (
+  chatProgress: ChatProgress,
+  messageId: number
+): boolean => messageId in chatProgress.ledger;
+
+export const getLedger = (): (LedgerEntry & { chatId: string })[] => {
+  const { chats } = getProgress();
+  return Object.keys(chats).flatMap((chatId) =>
+    Object.values(chats[chatId].ledger).map((entry) => ({
+      chatId,
+      ...entry,
+    }))
+  );
 };
 
 export const setSetting = (newSetting: Setting) => {
   currentSetting = newSetting;
-  localStorage.setItem(settingKey, JSON.stringify(newSetting));
-  console.log(newSetting);
+  getStore().setItem(getProfileKey(settingKey), JSON.stringify(newSetting));
 };
 
-export const setProgress = (newProgress: Progress) => {
-  currentProgress = newProgress;
-  localStorage.setItem(progressKey, JSON.stringify(newProgress));
-  console.log(newProgress);
+// Aggregated messages all map to the same note
+export const markMessageMigrated = (
+  chatId: number,
+  messageIds: number[],
+  postedNote: PostedNote
+) => {
+  const migratedAt = new Date().toISOString();
+  const ledger: { [messageId: string]: LedgerEntry } = {};
+  const failures: { [messageId: string]: undefined } = {};
+  for (const messageId of messageIds) {
+    failures[messageId] = undefined;
+    ledger[messageId] = {
+      messageId,
+      ...postedNote,
+      migratedAt,
+    };
+  }
+  updateChatProgress(chatId, "failures", failures);
+  updateChatProgress(chatId, "ledger", ledger);
 };
 
+export const markMessageFailed = (
+  chatId: number,
+  failure: Omit<FailureEntry, "failedAt">
+) => {
+  updateChatProgress(chatId, "failures", {
+    [failure.messageId]: {
+      ...failure,
+      failedAt: new Date().toISOString(),
+    },
+  });
+};
+
+export const getMessageFailure = (
+  chatProgress: ChatProgress,
+  messageId: number
+): FailureEntry | undefined => chatProgress.failures?.[messageId];
+
+// Undefined to use the generated content again
+export const setMessageOverride = (
+  chatId: number,
+  messageId: number,
+  override?: ContentOverride
+) => {
+  updateChatProgress(chatId, "overrides", { [messageId]: override });
+};
+
+export const getMessageOverride = (
+  chatProgress: ChatProgress,
+  messageId: number
+): ContentOverride | undefined => chatProgress.overrides?.[messageId];
+
 export const clearSetting = () => {
-  localStorage.removeItem(settingKey);
+  getStore().removeItem(getProfileKey(settingKey));
+  currentSetting = null;
 };
 
 export const cleatProgress = () => {
-  localStorage.removeItem(progressKey);
+  const profileId = getProfileIndex().currentId;
+  saveRecords(deletions(profileRecords(profileId, getProgresses()[profileId])));
+  delete getProgresses()[profileId];
+};
+
+export const getProfiles = (): Profile[] => getProfileIndex().profiles;
+
+export const getCurrentProfile = (): Profile => {
+  const { currentId, profiles } = getProfileIndex();
+  return profiles.find((profile) => profile.id === currentId)!;
+};
+
+// Settings and progress are loaded again on next use
+export const switchProfile = (profileId: string) => {
+  const index = getProfileIndex();
+  if (!index.profiles.some((profile) => profile.id === profileId)) {
+    throw new Error(`Profile ${profileId} not found.`);
+  }
+
+  setProfileIndex({ ...index, currentId: profileId });
+  currentSetting = null;
+};
+
+// Copies the settings of copyFrom, progress always starts afresh
+export const createProfile = (name: string, copyFrom?: string): Profile => {
+  const profile: Profile = {
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name,
+  };
+
+  if (copyFrom) {
+    const storedSetting = getStore().getItem(
+      getProfileKey(settingKey, copyFrom)
+    );
+    if (storedSetting) {
+      getStore().setItem(getProfileKey(settingKey, profile.id), storedSetting);
+    }
+  }
+
+  const index = getProfileIndex();
+  setProfileIndex({ ...index, profiles: index.profiles.concat(profile) });
+  return profile;
+};
+
+export const renameProfile = (profileId: string, name: string) => {
+  const index = getProfileIndex();
+  setProfileIndex({
+    ...index,
+    profiles: index.profiles.map((profile) =>
+      profile.id === profileId ? { ...profile, name } : profile
+    ),
+  });
+};
+
+// The last one can't be deleted, the current one switches to the first left
+export const deleteProfile = (profileId: string) => {
+  const index = getProfileIndex();
+  const profiles = index.profiles.filter((profile) => profile.id !== profileId);
+  if (profiles.length === 0) {
+    throw new Error("The last profile can't be deleted.");
+  }
+
+  getStore().removeItem(getProfileKey(settingKey, profileId));
+  saveRecords(deletions(profileRecords(profileId, getProgresses()[profileId])));
+  delete getProgresses()[profileId];
+  setProfileIndex({
+    currentId: index.currentId === profileId ? profiles[0].id : index.currentId,
+    profiles,
+  });
+  if (index.currentId === profileId) {
+    currentSetting = null;
+  }
+};
+
+// Without loading the profile
+export const getProfileSummary = (profileId: string): ProfileSummary => {
+  const storedSetting = getStore().getItem(
+    getProfileKey(settingKey, profileId)
+  );
+  const setting: Partial<Setting> = storedSetting
+    ? JSON.parse(storedSetting)
+    : {};
+
+  const summary: ProfileSummary = {
+    characterHandle: setting.characterHandle || "",
+    channelName: setting.channelName || "",
+    migrated: 0,
+    failed: 0,
+  };
+  for (const chatProgress of Object.values(
+    getProgresses()[profileId]?.chats || {}
+  )) {
+    summary.migrated += Object.keys(chatProgress.ledger).length;
+    summary.failed += Object.keys(chatProgress.failures || {}).length;
+  }
+  return summary;
 };
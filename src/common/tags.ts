@@ -0,0 +1,58 @@
+import type { TGExportMessageData } from "./contract";
+
+export interface TagRule {
+  // Case-insensitive, matched against message text
+  keyword: string;
+  tag: string;
+}
+
+// "#tag@channel" is also a hashtag in Telegram
+const hashtagToTag = (hashtag: string): string =>
+  hashtag.replace(/^#/, "").split("@")[0];
+
+export const ExtractHashtags = (message: TGExportMessageData): string[] =>
+  (message.text_entities || [])
+    .filter((entity) => entity.type === "hashtag")
+    .map((entity) => hashtagToTag(entity.text))
+    .filter((tag) => !!tag);
+
+export const GetMessageTags = (
+  message: TGExportMessageData,
+  tagRules: TagRule[]
+): string[] => {
+  const tags = ExtractHashtags(message);
+
+  const text = (message.text_entities || [])
+    .map((entity) => entity.text)
+    .join("")
+    .toLowerCase();
+  for (const rule of tagRules) {
+    if (rule.keyword && rule.tag && text.includes(rule.keyword.toLowerCase())) {
+      tags.push(rule.tag);
+    }
+  }
+
+  // Deduplicate, keep the first spelling
+  const seen = new Set<string>();
+  return tags.filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// One rule per line, as "keyword=tag"
+export const parseTagRules = (text: string): TagRule[] =>
+  text
+    .split("\n")
+    .map((line) => line.split("="))
+    .filter((parts) => parts.length >= 2)
+    .map(([keyword, ...tag]) => ({
+      keyword: keyword.trim(),
+      tag: tag.join("=").trim(),
+    }))
+    .filter((rule) => rule.keyword && rule.tag);
+
+export const stringifyTagRules = (rules: TagRule[]): string =>
+  rules.map((rule) => `${rule.keyword}=${rule.tag}`).join("\n");
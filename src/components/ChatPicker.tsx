@@ -0,0 +1,91 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ExportChat } from "@/common/messages";
+import { getSetting } from "@/common/session";
+
+interface ChatPickerProps {
+  chats: ExportChat[];
+  onConfirm: (
+    selectedChats: ExportChat[],
+    channelNames: { [chatId: string]: string }
+  ) => void;
+}
+
+const ChatPicker = ({ chats, onConfirm }: ChatPickerProps) => {
+  const [selectedIDs, setSelectedIDs] = useState<number[]>([]);
+  const [channelNames, setChannelNames] = useState<{
+    [chatId: string]: string;
+  }>(getSetting().chatChannelNames);
+
+  return (
+    <Box sx={{ mt: 2, width: "100%" }}>
+      <Typography>
+        This is a full-account export, please pick the chats to migrate.
+      </Typography>
+      <List>
+        {chats.map((chat) => (
+          <ListItem key={chat.id}>
+            <ListItemIcon>
+              <Checkbox
+                edge={"start"}
+                checked={selectedIDs.includes(chat.id)}
+                onChange={(ev) => {
+                  setSelectedIDs(
+                    ev.target.checked
+                      ? selectedIDs.concat(chat.id)
+                      : selectedIDs.filter((id) => id !== chat.id)
+                  );
+                }}
+              />
+            </ListItemIcon>
+            <ListItemText
+              primary={chat.name}
+              secondary={`${chat.type} · ${chat.messages.length} messages`}
+            />
+            <TextField
+              size="small"
+              label="Channel username"
+              type="text"
+              value={channelNames[chat.id] || ""}
+              onChange={(ev) => {
+                setChannelNames({
+                  ...channelNames,
+                  [chat.id]: ev.target.value
+                    .replace("https://", "")
+                    .replace("t.me/", ""),
+                });
+              }}
+            />
+          </ListItem>
+        ))}
+      </List>
+      <Button
+        type="button"
+        fullWidth
+        variant="contained"
+        sx={{ mt: 3, mb: 2 }}
+        disabled={selectedIDs.length === 0}
+        onClick={() => {
+          onConfirm(
+            chats.filter((chat) => selectedIDs.includes(chat.id)),
+            channelNames
+          );
+        }}
+      >
+        Continue with {selectedIDs.length} chats
+      </Button>
+    </Box>
+  );
+};
+
+export default ChatPicker;
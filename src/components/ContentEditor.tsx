@@ -0,0 +1,283 @@
+import React, { useEffect, useState } from "react";
+import ReactMarkdown from "react-markdown";
+import rehypeRaw from "rehype-raw";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { ArrowDownward, ArrowUpward, Delete } from "@mui/icons-material";
+import ExportMedia from "@/components/ExportMedia";
+import {
+  ComposeNoteContent,
+  ComposeNoteText,
+  TGExportMessageDataWithPhotos,
+} from "@/common/contract";
+import { GetAttachmentSources } from "@/common/media";
+import {
+  ExportChat,
+  getChatChannelName,
+  getPinnedTarget,
+  getReplyTarget,
+} from "@/common/messages";
+import { ContentOverride, getChatProgress, getSetting } from "@/common/session";
+
+interface ContentEditorProps {
+  chat: ExportChat | null;
+  // Closed if null
+  message: TGExportMessageDataWithPhotos | null;
+  override?: ContentOverride;
+  // Undefined to use the generated content again
+  onSave: (override?: ContentOverride) => void;
+  onClose: () => void;
+}
+
+// Tags the composed content may have besides Markdown, anything else is dropped
+const previewSchema = {
+  ...defaultSchema,
+  tagNames: [...(defaultSchema.tagNames || []), "u"],
+  attributes: {
+    ...defaultSchema.attributes,
+    span: [["className", "spoiler"]],
+  },
+};
+
+// What the note is composed of besides the message
+const getNoteContext = (
+  chat: ExportChat,
+  message: TGExportMessageDataWithPhotos
+) => {
+  const settings = getSetting();
+  const chatProgress = getChatProgress(chat.id);
+  return {
+    settings,
+    channelName: getChatChannelName(chat, settings),
+    replyTo: getReplyTarget(chat, message, chatProgress),
+    pinned: getPinnedTarget(chat, message, chatProgress),
+    ledger: chatProgress.ledger,
+  };
+};
+
+const ContentEditor = ({
+  chat,
+  message,
+  override,
+  onSave,
+  onClose,
+}: ContentEditorProps) => {
+  const [content, setContent] = useState("");
+  const [attachments, setAttachments] = useState<string[]>([]);
+
+  const sources = message ? GetAttachmentSources(message) : [];
+
+  useEffect(() => {
+    if (!chat || !message) {
+      return;
+    }
+    if (override) {
+      setContent(override.content);
+    } else {
+      // As it would be posted, content rules applied
+      const { settings, channelName, pinned, ledger } = getNoteContext(
+        chat,
+        message
+      );
+      setContent(
+        ComposeNoteText(message, channelName, settings, pinned, ledger)
+      );
+    }
+    setAttachments(
+      override?.attachments ??
+        GetAttachmentSources(message).map(({ source }) => source)
+    );
+  }, [chat, message, override]);
+
+  // With the forward attribution, reply quote and media around the text
+  let preview = "";
+  if (chat && message) {
+    const { settings, channelName, replyTo, pinned, ledger } = getNoteContext(
+      chat,
+      message
+    );
+    preview = ComposeNoteContent(
+      message,
+      channelName,
+      settings,
+      replyTo,
+      pinned,
+      { content, attachments },
+      ledger
+    );
+  }
+
+  const move = (index: number, offset: number) => {
+    const moved = attachments.slice();
+    [moved[index], moved[index + offset]] = [
+      moved[index + offset],
+      moved[index],
+    ];
+    setAttachments(moved);
+  };
+
+  return (
+    <Dialog
+      open={message !== null}
+      onClose={onClose}
+      fullWidth
+      maxWidth="md"
+      aria-labelledby="content-editor-dialog-title"
+    >
+      <DialogTitle id="content-editor-dialog-title">
+        {`Edit message #${message?.id}`}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: "flex", gap: 2, flexWrap: "wrap" }}>
+          <TextField
+            margin="normal"
+            multiline
+            minRows={8}
+            label="Content (Markdown)"
+            sx={{ flex: 1, minWidth: 280 }}
+            value={content}
+            onChange={(ev) => {
+              setContent(ev.target.value);
+            }}
+          />
+          <Box
+            sx={{
+              flex: 1,
+              minWidth: 280,
+              mt: 2,
+              overflowWrap: "anywhere",
+              "& table": { borderCollapse: "collapse" },
+              "& th, & td": { border: 1, borderColor: "divider", px: 1 },
+              "& .spoiler": { filter: "blur(4px)" },
+              "& .spoiler:hover": { filter: "none" },
+            }}
+          >
+            <Typography variant="caption" color="text.secondary">
+              Preview
+            </Typography>
+            <ReactMarkdown
+              remarkPlugins={[remarkGfm]}
+              rehypePlugins={[rehypeRaw, [rehypeSanitize, previewSchema]]}
+            >
+              {preview}
+            </ReactMarkdown>
+          </Box>
+        </Box>
+
+        {sources.length > 0 && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>
+              Attachments
+            </Typography>
+            <List dense>
+              {attachments.map((source, index) => {
+                const mimeType = sources.find(
+                  (item) => item.source === source
+                )?.mimeType;
+                return (
+                  <ListItem
+                    key={source}
+                    secondaryAction={
+                      <>
+                        <IconButton
+                          size="small"
+                          disabled={index === 0}
+                          onClick={() => {
+                            move(index, -1);
+                          }}
+                        >
+                          <ArrowUpward />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          disabled={index === attachments.length - 1}
+                          onClick={() => {
+                            move(index, 1);
+                          }}
+                        >
+                          <ArrowDownward />
+                        </IconButton>
+                        <IconButton
+                          size="small"
+                          onClick={() => {
+                            setAttachments(
+                              attachments.filter((item) => item !== source)
+                            );
+                          }}
+                        >
+                          <Delete />
+                        </IconButton>
+                      </>
+                    }
+                  >
+                    {mimeType?.startsWith("image") && (
+                      <Box sx={{ mr: 2 }}>
+                        <ExportMedia
+                          path={source}
+                          mimeType={mimeType}
+                          width={64}
+                        />
+                      </Box>
+                    )}
+                    <ListItemText primary={source} secondary={mimeType} />
+                  </ListItem>
+                );
+              })}
+            </List>
+            {attachments.length < sources.length && (
+              <Button
+                size="small"
+                onClick={() => {
+                  setAttachments(
+                    attachments.concat(
+                      sources
+                        .map(({ source }) => source)
+                        .filter((source) => !attachments.includes(source))
+                    )
+                  );
+                }}
+              >
+                Restore removed attachments
+              </Button>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button
+          onClick={() => {
+            onSave(undefined);
+          }}
+        >
+          Reset to generated
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => {
+            onSave({ content, attachments });
+          }}
+          variant="contained"
+          autoFocus
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ContentEditor;
@@ -0,0 +1,322 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Add, ArrowDownward, ArrowUpward, Delete } from "@mui/icons-material";
+import {
+  ApplyContentRules,
+  compileContentRule,
+  ContentRule,
+  ContentRulePlaceholders,
+  ContentRuleType,
+  ContentRuleTypeLabels,
+} from "@/common/rules";
+import {
+  GetLedgerNoteLink,
+  ParseMessageText,
+  TGExportMessageData,
+} from "@/common/contract";
+import { getExportResult, isExportLoaded } from "@/common/export";
+import {
+  ExportChat,
+  getChatChannelName,
+  getExportChats,
+} from "@/common/messages";
+import { getChatProgress, getSetting } from "@/common/session";
+
+interface ContentRulesEditorProps {
+  rules: ContentRule[];
+  onChange: (rules: ContentRule[]) => void;
+  // Unsaved ones from the Settings page, for the preview
+  channelName: string;
+  stripHashtags: boolean;
+}
+
+// Messages shown in the preview at once
+const sampleCount = 3;
+
+const getRuleError = (rule: ContentRule): string => {
+  try {
+    compileContentRule(rule);
+    return "";
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+const patternLabels: { [type in ContentRuleType]: string } = {
+  replace: "Find (regex)",
+  signature: "Signature (regex)",
+  links: "",
+  prepend: "Template",
+  append: "Template",
+};
+
+// Messages with text from the loaded export, skipping the first offset ones
+const getSamples = (
+  offset: number
+): { chat: ExportChat; message: TGExportMessageData }[] => {
+  if (!isExportLoaded()) {
+    return [];
+  }
+
+  const samples: { chat: ExportChat; message: TGExportMessageData }[] = [];
+  let skipped = 0;
+  for (const chat of getExportChats(getExportResult())) {
+    for (const message of chat.messages) {
+      if (message.type !== "message" || !message.text_entities?.length) {
+        continue;
+      }
+      if (skipped++ < offset) {
+        continue;
+      }
+      samples.push({ chat, message });
+      if (samples.length === sampleCount) {
+        return samples;
+      }
+    }
+  }
+  return samples;
+};
+
+const ContentRulesEditor = ({
+  rules,
+  onChange,
+  channelName,
+  stripHashtags,
+}: ContentRulesEditorProps) => {
+  const [sampleOffset, setSampleOffset] = useState(0);
+
+  const updateRule = (index: number, patch: Partial<ContentRule>) => {
+    onChange(
+      rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule))
+    );
+  };
+
+  const move = (index: number, offset: number) => {
+    const moved = rules.slice();
+    [moved[index], moved[index + offset]] = [
+      moved[index + offset],
+      moved[index],
+    ];
+    onChange(moved);
+  };
+
+  const hasError = rules.some((rule) => !!getRuleError(rule));
+  const samples = getSamples(sampleOffset);
+
+  return (
+    <Box sx={{ mt: 2, mb: 1 }}>
+      <Typography variant="subtitle1">Content rules</Typography>
+      <Typography variant="body2" color="text.secondary">
+        Applied in order to the Markdown of each message, edited ones are left
+        as they are. Templates can use{" "}
+        {Object.entries(ContentRulePlaceholders)
+          .map(
+            ([placeholder, description]) => `${placeholder} (${description})`
+          )
+          .join(", ")}
+        .
+      </Typography>
+
+      {rules.map((rule, index) => {
+        const error = getRuleError(rule);
+        return (
+          <Box
+            key={index}
+            sx={{
+              display: "flex",
+              flexWrap: "wrap",
+              alignItems: "flex-start",
+              gap: 1,
+              mt: 2,
+            }}
+          >
+            <TextField
+              select
+              size="small"
+              label="Rule"
+              sx={{ minWidth: 200 }}
+              value={rule.type}
+              onChange={(ev) => {
+                updateRule(index, {
+                  type: ev.target.value as ContentRuleType,
+                });
+              }}
+            >
+              {(Object.keys(ContentRuleTypeLabels) as ContentRuleType[]).map(
+                (type) => (
+                  <MenuItem key={type} value={type}>
+                    {ContentRuleTypeLabels[type]}
+                  </MenuItem>
+                )
+              )}
+            </TextField>
+            {rule.type !== "links" && (
+              <TextField
+                size="small"
+                label={patternLabels[rule.type]}
+                sx={{ flex: 1, minWidth: 160 }}
+                multiline={rule.type === "prepend" || rule.type === "append"}
+                value={rule.pattern}
+                error={!!error}
+                helperText={error}
+                onChange={(ev) => {
+                  updateRule(index, { pattern: ev.target.value });
+                }}
+              />
+            )}
+            {rule.type === "replace" && (
+              <TextField
+                size="small"
+                label="Replace with"
+                sx={{ flex: 1, minWidth: 160 }}
+                value={rule.replacement}
+                onChange={(ev) => {
+                  updateRule(index, { replacement: ev.target.value });
+                }}
+              />
+            )}
+            {rule.type === "links" && (
+              <Typography
+                variant="body2"
+                color="text.secondary"
+                sx={{ flex: 1, alignSelf: "center" }}
+              >
+                t.me links to messages of the channel become links to their
+                notes, once migrated
+              </Typography>
+            )}
+            <Box>
+              <IconButton
+                size="small"
+                disabled={index === 0}
+                onClick={() => {
+                  move(index, -1);
+                }}
+              >
+                <ArrowUpward />
+              </IconButton>
+              <IconButton
+                size="small"
+                disabled={index === rules.length - 1}
+                onClick={() => {
+                  move(index, 1);
+                }}
+              >
+                <ArrowDownward />
+              </IconButton>
+              <IconButton
+                size="small"
+                onClick={() => {
+                  onChange(rules.filter((_, i) => i !== index));
+                }}
+              >
+                <Delete />
+              </IconButton>
+            </Box>
+          </Box>
+        );
+      })}
+
+      <Button
+        size="small"
+        startIcon={<Add />}
+        sx={{ mt: 1 }}
+        onClick={() => {
+          onChange(
+            rules.concat({ type: "replace", pattern: "", replacement: "" })
+          );
+        }}
+      >
+        Add rule
+      </Button>
+
+      {rules.length > 0 && (
+        <Box sx={{ mt: 2 }}>
+          <Box sx={{ display: "flex", alignItems: "center" }}>
+            <Typography variant="subtitle2" sx={{ flex: 1 }}>
+              Preview
+            </Typography>
+            {samples.length > 0 && (
+              <Button
+                size="small"
+                onClick={() => {
+                  // Back to the first ones after the last
+                  const next = sampleOffset + sampleCount;
+                  setSampleOffset(getSamples(next).length > 0 ? next : 0);
+                }}
+              >
+                Show other samples
+              </Button>
+            )}
+          </Box>
+          {hasError ? (
+            <Typography variant="body2" color="error">
+              Fix the rules above to preview them.
+            </Typography>
+          ) : samples.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              Select your Telegram export to preview rules on its messages.
+            </Typography>
+          ) : (
+            samples.map(({ chat, message }) => {
+              const text = ParseMessageText(message, { stripHashtags });
+              return (
+                <Box
+                  key={`${chat.id}-${message.id}`}
+                  sx={{
+                    display: "flex",
+                    gap: 2,
+                    mt: 1,
+                    pt: 1,
+                    borderTop: 1,
+                    borderColor: "divider",
+                  }}
+                >
+                  {[
+                    text,
+                    ApplyContentRules(text, rules, {
+                      message,
+                      channelName: getChatChannelName(chat, {
+                        ...getSetting(),
+                        channelName,
+                      }),
+                      getNoteLink: (messageId) =>
+                        GetLedgerNoteLink(
+                          getChatProgress(chat.id).ledger,
+                          messageId
+                        ),
+                    }),
+                  ].map((content, i) => (
+                    <Box key={i} sx={{ flex: 1, minWidth: 0 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        {i === 0 ? `#${message.id}` : "After rules"}
+                      </Typography>
+                      <Typography
+                        variant="body2"
+                        sx={{
+                          whiteSpace: "pre-wrap",
+                          overflowWrap: "anywhere",
+                        }}
+                      >
+                        {content}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              );
+            })
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ContentRulesEditor;
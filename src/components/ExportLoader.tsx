@@ -0,0 +1,117 @@
+import React, { useState } from "react";
+import { Box, Button, Typography } from "@mui/material";
+import { FolderOpen, FolderZip } from "@mui/icons-material";
+import {
+  getExportResult,
+  isExportLoaded,
+  loadExportFromDataTransfer,
+  loadExportFromFileList,
+} from "@/common/export";
+import { getExportChats, isAccountExport } from "@/common/messages";
+
+interface ExportLoaderProps {
+  onError: (e: any) => void;
+}
+
+const describeExport = () => {
+  if (!isExportLoaded()) {
+    return "";
+  }
+  const result = getExportResult();
+  if (isAccountExport(result)) {
+    return `Loaded full-account export (${
+      getExportChats(result).length
+    } chats)`;
+  }
+  return `Loaded "${result.name || "Unnamed"}" (${
+    result.messages?.length || 0
+  } messages)`;
+};
+
+const ExportLoader = ({ onError }: ExportLoaderProps) => {
+  const [isDragging, setDragging] = useState(false);
+  const [isReading, setReading] = useState(false);
+  const [description, setDescription] = useState(describeExport());
+
+  const load = async (loader: () => Promise<void>) => {
+    setReading(true);
+    try {
+      await loader();
+      setDescription(describeExport());
+    } catch (e: any) {
+      console.log(e);
+      onError(e);
+    }
+    setReading(false);
+  };
+
+  return (
+    <Box
+      sx={{
+        mt: 2,
+        mb: 1,
+        p: 2,
+        border: "2px dashed",
+        borderColor: isDragging ? "primary.main" : "divider",
+        borderRadius: 1,
+        textAlign: "center",
+      }}
+      onDragOver={(ev) => {
+        ev.preventDefault();
+        setDragging(true);
+      }}
+      onDragLeave={() => {
+        setDragging(false);
+      }}
+      onDrop={(ev) => {
+        ev.preventDefault();
+        setDragging(false);
+        const dataTransfer = ev.dataTransfer;
+        load(() => loadExportFromDataTransfer(dataTransfer));
+      }}
+    >
+      <Typography>
+        {isReading
+          ? "Reading export..."
+          : description ||
+            "Drop your Telegram export folder (or a zip of it) here"}
+      </Typography>
+      <Box sx={{ mt: 1, display: "flex", justifyContent: "center", gap: 1 }}>
+        <Button component="label" startIcon={<FolderOpen />}>
+          Select folder
+          <input
+            hidden
+            type="file"
+            multiple
+            ref={(input) => {
+              // Not covered by React's input attributes
+              input?.setAttribute("webkitdirectory", "");
+            }}
+            onChange={(ev) => {
+              const files = ev.target.files;
+              if (files && files.length > 0) {
+                load(() => loadExportFromFileList(files));
+              }
+            }}
+          />
+        </Button>
+        <Button component="label" startIcon={<FolderZip />}>
+          Select zip
+          <input
+            hidden
+            type="file"
+            accept=".zip,application/zip"
+            onChange={(ev) => {
+              const files = ev.target.files;
+              if (files && files.length > 0) {
+                load(() => loadExportFromFileList(files));
+              }
+            }}
+          />
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default ExportLoader;
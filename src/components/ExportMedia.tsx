@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from "react";
+import { getExportFileUrl } from "@/common/export";
+
+interface ExportMediaProps {
+  path: string;
+  mimeType?: string;
+  width?: number;
+  // Video messages are round
+  isRound?: boolean;
+  // Animations play like GIFs
+  isAnimation?: boolean;
+}
+
+const ExportMedia = ({
+  path,
+  mimeType,
+  width = 300,
+  isRound = false,
+  isAnimation = false,
+}: ExportMediaProps) => {
+  const [url, setUrl] = useState<string | undefined>(undefined);
+  const [isMissing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let isCancelled = false;
+    getExportFileUrl(path)
+      .then((fileUrl) => {
+        if (isCancelled) return;
+        setUrl(fileUrl);
+        setMissing(!fileUrl);
+      })
+      .catch(() => {
+        if (!isCancelled) setMissing(true);
+      });
+    return () => {
+      isCancelled = true;
+    };
+  }, [path]);
+
+  if (isMissing) {
+    return <div>Missing file: {path}</div>;
+  }
+
+  if (!url) {
+    return <></>;
+  }
+
+  return mimeType?.startsWith("image") ? (
+    <img src={url} alt={path} width={width} loading="lazy" />
+  ) : mimeType?.startsWith("audio") ? (
+    <audio controls>
+      <source src={url} type={mimeType} />
+      Your browser does not support the audio tag.
+    </audio>
+  ) : mimeType?.startsWith("video") ? (
+    <video
+      controls={!isAnimation}
+      autoPlay={isAnimation}
+      loop={isAnimation}
+      muted={isAnimation}
+      width={width}
+      style={isRound ? { borderRadius: "50%" } : undefined}
+    >
+      <source src={url} type={mimeType} />
+      Your browser does not support the video tag.
+    </video>
+  ) : (
+    <div>
+      Unknown file: {path} ({mimeType})
+    </div>
+  );
+};
+
+export default ExportMedia;
@@ -0,0 +1,204 @@
+import React from "react";
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  TextField,
+  Typography,
+} from "@mui/material";
+import {
+  compileSearch,
+  emptyMessageFilter,
+  MessageFilter,
+  MessageFilterType,
+  MessageFilterTypeLabels,
+} from "@/common/filter";
+
+interface MessageFilterBarProps {
+  filter: MessageFilter;
+  authors: string[];
+  onChange: (filter: MessageFilter) => void;
+
+  // Counts
+  matching: number;
+  selected: number;
+  migrated: number;
+  total: number;
+
+  // Bulk actions on matching messages
+  onSelectMatching: () => void;
+  onDeselectMatching: () => void;
+  onInvertMatching: () => void;
+}
+
+const getSearchError = (filter: MessageFilter): string => {
+  try {
+    compileSearch(filter);
+    return "";
+  } catch (e: any) {
+    return e.message;
+  }
+};
+
+const MessageFilterBar = ({
+  filter,
+  authors,
+  onChange,
+  matching,
+  selected,
+  migrated,
+  total,
+  onSelectMatching,
+  onDeselectMatching,
+  onInvertMatching,
+}: MessageFilterBarProps) => {
+  const searchError = getSearchError(filter);
+
+  return (
+    <Box sx={{ mt: 4, width: "100%" }}>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+        <TextField
+          size="small"
+          label="From"
+          type="date"
+          InputLabelProps={{ shrink: true }}
+          value={filter.fromDate}
+          onChange={(ev) => {
+            onChange({ ...filter, fromDate: ev.target.value });
+          }}
+        />
+        <TextField
+          size="small"
+          label="To"
+          type="date"
+          InputLabelProps={{ shrink: true }}
+          value={filter.toDate}
+          onChange={(ev) => {
+            onChange({ ...filter, toDate: ev.target.value });
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Type"
+          sx={{ minWidth: 140 }}
+          SelectProps={{
+            multiple: true,
+            renderValue: (value) =>
+              (value as MessageFilterType[])
+                .map((type) => MessageFilterTypeLabels[type])
+                .join(", "),
+          }}
+          value={filter.types}
+          onChange={(ev) => {
+            onChange({
+              ...filter,
+              types: ev.target.value as unknown as MessageFilterType[],
+            });
+          }}
+        >
+          {(Object.keys(MessageFilterTypeLabels) as MessageFilterType[]).map(
+            (type) => (
+              <MenuItem key={type} value={type}>
+                <Checkbox checked={filter.types.includes(type)} size="small" />
+                {MessageFilterTypeLabels[type]}
+              </MenuItem>
+            )
+          )}
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Media"
+          sx={{ minWidth: 120 }}
+          value={filter.hasMedia}
+          onChange={(ev) => {
+            onChange({
+              ...filter,
+              hasMedia: ev.target.value as MessageFilter["hasMedia"],
+            });
+          }}
+        >
+          <MenuItem value="any">Any</MenuItem>
+          <MenuItem value="with">With media</MenuItem>
+          <MenuItem value="without">Without media</MenuItem>
+        </TextField>
+        <TextField
+          select
+          size="small"
+          label="Author"
+          sx={{ minWidth: 140 }}
+          value={filter.author}
+          onChange={(ev) => {
+            onChange({ ...filter, author: ev.target.value });
+          }}
+        >
+          <MenuItem value="">Anyone</MenuItem>
+          {authors.map((author) => (
+            <MenuItem key={author} value={author}>
+              {author}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          size="small"
+          label="Search"
+          sx={{ flex: 1, minWidth: 200 }}
+          value={filter.search}
+          error={!!searchError}
+          helperText={searchError}
+          onChange={(ev) => {
+            onChange({ ...filter, search: ev.target.value });
+          }}
+        />
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={filter.isRegex}
+              onChange={(ev) => {
+                onChange({ ...filter, isRegex: ev.target.checked });
+              }}
+            />
+          }
+          label="Regex"
+        />
+      </Box>
+
+      <Box
+        sx={{
+          display: "flex",
+          flexWrap: "wrap",
+          alignItems: "center",
+          gap: 1,
+          mt: 1,
+        }}
+      >
+        <Typography variant="body2" sx={{ flex: 1 }}>
+          {matching} of {total} shown · {selected} selected · {migrated} already
+          migrated
+        </Typography>
+        <Button size="small" onClick={onSelectMatching}>
+          Select shown
+        </Button>
+        <Button size="small" onClick={onDeselectMatching}>
+          Deselect shown
+        </Button>
+        <Button size="small" onClick={onInvertMatching}>
+          Invert shown
+        </Button>
+        <Button
+          size="small"
+          onClick={() => {
+            onChange(emptyMessageFilter);
+          }}
+        >
+          Clear filters
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export default MessageFilterBar;
@@ -0,0 +1,210 @@
+import React, { memo } from "react";
+import {
+  Box,
+  Checkbox,
+  Chip,
+  IconButton,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+} from "@mui/material";
+import {
+  AccessTime,
+  AddTask,
+  CallMerge,
+  CallSplit,
+  Check,
+  Edit,
+  ErrorOutline,
+  Shortcut,
+} from "@mui/icons-material";
+import {
+  GetForwardSource,
+  ParseMessageText,
+  ParseServiceMessage,
+  TGExportMessageDataWithPhotos,
+} from "@/common/contract";
+import {
+  ExportChat,
+  getChatChannelName,
+  getMessageIds,
+  getPinnedTarget,
+} from "@/common/messages";
+import { ContentOverride, getChatProgress, getSetting } from "@/common/session";
+import MessageMedia from "@/components/MessageMedia";
+
+export interface messagesPendingMigration {
+  // Original message data
+  message: TGExportMessageDataWithPhotos;
+  chat: ExportChat;
+
+  // Let user select this
+  isToMigrate: boolean;
+
+  // Status
+  isPendingMigrate: boolean;
+  isMigrated: boolean;
+  // Reason of the last failed attempt
+  failedReason?: string;
+  // Content edited by hand
+  override?: ContentOverride;
+}
+
+// Unique in the list, message IDs are only unique inside a chat
+export const getItemKey = (chatId: number, messageId: number): string =>
+  `${chatId}-${messageId}`;
+
+interface MessageListItemProps {
+  itemKey: string;
+  wrappedMessage: messagesPendingMigration;
+  // Editing is disabled while migrating
+  isEditable: boolean;
+  canMergeWithNext: boolean;
+  // Called with itemKey, so they can stay the same between renders
+  onToggle: (key: string) => void;
+  onEdit: (key: string) => void;
+  onMergeWithNext: (key: string) => void;
+  onSplit: (key: string) => void;
+}
+
+const previewText = ({
+  message,
+  chat,
+  override,
+}: messagesPendingMigration): string =>
+  override
+    ? override.content
+    : message.type === "service"
+    ? ParseServiceMessage(
+        message,
+        getChatChannelName(chat, getSetting()),
+        getPinnedTarget(chat, message, getChatProgress(chat.id))
+      )
+    : ParseMessageText(message, getSetting());
+
+// Rows only render again when their own item changes
+const MessageListItem = memo(
+  ({
+    itemKey,
+    wrappedMessage,
+    isEditable,
+    canMergeWithNext,
+    onToggle,
+    onEdit,
+    onMergeWithNext,
+    onSplit,
+  }: MessageListItemProps) => (
+    <ListItem
+      secondaryAction={
+        !wrappedMessage.isMigrated &&
+        isEditable && (
+          <Box sx={{ display: "flex", flexDirection: "column" }}>
+            <Tooltip title="Edit content">
+              <IconButton
+                size="small"
+                onClick={() => {
+                  onEdit(itemKey);
+                }}
+              >
+                <Edit />
+              </IconButton>
+            </Tooltip>
+            {canMergeWithNext && (
+              <Tooltip title="Merge with the next one">
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    onMergeWithNext(itemKey);
+                  }}
+                >
+                  <CallMerge />
+                </IconButton>
+              </Tooltip>
+            )}
+            {getMessageIds(wrappedMessage.message).length > 1 && (
+              <Tooltip title="Split into original messages">
+                <IconButton
+                  size="small"
+                  onClick={() => {
+                    onSplit(itemKey);
+                  }}
+                >
+                  <CallSplit />
+                </IconButton>
+              </Tooltip>
+            )}
+          </Box>
+        )
+      }
+    >
+      <ListItemButton
+        onClick={() => {
+          onToggle(itemKey);
+        }}
+      >
+        <ListItemIcon>
+          <Checkbox
+            edge={"start"}
+            checked={wrappedMessage.isToMigrate}
+            disableRipple
+          />
+        </ListItemIcon>
+        <ListItemText
+          primary={
+            <Box sx={{ display: "flex", flexDirection: "column" }}>
+              {GetForwardSource(wrappedMessage.message) && (
+                <Chip
+                  icon={<Shortcut />}
+                  label={`Forwarded from ${GetForwardSource(
+                    wrappedMessage.message
+                  )}`}
+                  size="small"
+                  sx={{ alignSelf: "flex-start", mb: 1 }}
+                />
+              )}
+              {wrappedMessage.override && (
+                <Chip
+                  icon={<Edit />}
+                  label="Edited"
+                  size="small"
+                  sx={{ alignSelf: "flex-start", mb: 1 }}
+                />
+              )}
+              <span>{previewText(wrappedMessage)}</span>
+              <MessageMedia message={wrappedMessage.message} isThumbnail />
+            </Box>
+          }
+          secondary={
+            wrappedMessage.chat.isFromAccountExport
+              ? `${wrappedMessage.chat.name} · ${new Date(
+                  wrappedMessage.message.date
+                ).toLocaleString()}`
+              : new Date(wrappedMessage.message.date).toLocaleString()
+          }
+          style={{
+            whiteSpace: "pre-wrap",
+          }}
+        />
+        <ListItemIcon>
+          {wrappedMessage.isMigrated ? (
+            <Check />
+          ) : wrappedMessage.isPendingMigrate ? (
+            <AccessTime />
+          ) : wrappedMessage.failedReason ? (
+            <Tooltip title={wrappedMessage.failedReason}>
+              <ErrorOutline color="error" />
+            </Tooltip>
+          ) : wrappedMessage.isToMigrate ? (
+            <AddTask />
+          ) : (
+            <></>
+          )}
+        </ListItemIcon>
+      </ListItemButton>
+    </ListItem>
+  )
+);
+
+export default MessageListItem;
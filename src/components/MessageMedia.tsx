@@ -0,0 +1,180 @@
+import React from "react";
+import {
+  Box,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { MediaFile, TGExportMessageDataWithPhotos } from "@/common/contract";
+import {
+  FormatDuration,
+  GetContactName,
+  GetMapLink,
+  GetMessageKind,
+} from "@/common/media";
+import ExportMedia from "@/components/ExportMedia";
+
+interface MessageMediaProps {
+  message: TGExportMessageDataWithPhotos;
+  // Small images instead of players, for long lists
+  isThumbnail?: boolean;
+}
+
+const thumbnailWidth = 120;
+
+const FileThumbnail = ({
+  file,
+  isRound = false,
+}: {
+  file: MediaFile;
+  isRound?: boolean;
+}) =>
+  file.thumbnail ? (
+    <ExportMedia
+      path={file.thumbnail}
+      mimeType="image/jpeg"
+      width={thumbnailWidth}
+      isRound={isRound}
+    />
+  ) : file.mime_type?.startsWith("image") ? (
+    <ExportMedia
+      path={file.file!}
+      mimeType={file.mime_type}
+      width={thumbnailWidth}
+    />
+  ) : (
+    <Box>📎 {file.file!.split("/").pop()}</Box>
+  );
+
+const MessageMedia = ({ message, isThumbnail = false }: MessageMediaProps) => {
+  const kind = GetMessageKind(message);
+
+  switch (kind) {
+    case "poll": {
+      const poll = message.poll!;
+      return (
+        <Box>
+          <Typography variant="subtitle2">📊 {poll.question}</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Option</TableCell>
+                <TableCell align="right">Votes</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {poll.answers.map((answer) => (
+                <TableRow key={answer.text}>
+                  <TableCell>
+                    {answer.chosen ? "✔ " : ""}
+                    {answer.text}
+                  </TableCell>
+                  <TableCell align="right">{answer.voters}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <Typography variant="caption">
+            {poll.total_voters} votes{poll.closed ? " · Final results" : ""}
+          </Typography>
+        </Box>
+      );
+    }
+    case "location": {
+      const { latitude, longitude } = message.location_information!;
+      return (
+        <Box>
+          📍 {message.place_name || "Location"}{" "}
+          {message.address && <>({message.address}) </>}
+          <Link
+            href={GetMapLink(latitude, longitude)}
+            target="_blank"
+            rel="noreferrer"
+            onClick={(ev) => ev.stopPropagation()}
+          >
+            {latitude}, {longitude}
+          </Link>
+        </Box>
+      );
+    }
+    case "contact":
+      return (
+        <Box>
+          👤 {GetContactName(message) || "Contact"}{" "}
+          {message.contact_information?.phone_number} (vCard)
+        </Box>
+      );
+    default:
+      break;
+  }
+
+  return (
+    <>
+      {/*Photo*/}
+      {message.photos &&
+        message.photos.map(
+          (photo) =>
+            photo.photo && (
+              <ExportMedia
+                key={message.id.toString() + photo.photo}
+                path={photo.photo}
+                mimeType={"image/jpeg"}
+                width={isThumbnail ? thumbnailWidth : undefined}
+              />
+            )
+        )}
+      {/*Label*/}
+      {kind === "sticker" && <Box>{message.sticker_emoji} Sticker</Box>}
+      {kind === "voice_message" && (
+        <Box>🎤 Voice message ({FormatDuration(message.duration_seconds)})</Box>
+      )}
+      {kind === "video_message" && (
+        <Box>📹 Video message ({FormatDuration(message.duration_seconds)})</Box>
+      )}
+      {/*Attachment*/}
+      {message.file &&
+        (isThumbnail ? (
+          <FileThumbnail file={message} isRound={kind === "video_message"} />
+        ) : kind === "sticker" &&
+          message.file.endsWith(".tgs") &&
+          message.thumbnail ? (
+          <ExportMedia
+            path={message.thumbnail}
+            mimeType="image/webp"
+            width={128}
+          />
+        ) : (
+          <ExportMedia
+            path={message.file}
+            mimeType={message.mime_type}
+            width={kind === "sticker" || kind === "video_message" ? 128 : 300}
+            isRound={kind === "video_message"}
+            isAnimation={kind === "animation"}
+          />
+        ))}
+      {/*Aggregated files*/}
+      {message.files?.map(
+        (file) =>
+          file.file &&
+          (isThumbnail ? (
+            <FileThumbnail
+              key={message.id.toString() + file.file}
+              file={file}
+            />
+          ) : (
+            <ExportMedia
+              key={message.id.toString() + file.file}
+              path={file.file}
+              mimeType={file.mime_type}
+            />
+          ))
+      )}
+    </>
+  );
+};
+
+export default MessageMedia;
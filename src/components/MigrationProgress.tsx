@@ -0,0 +1,83 @@
+import React from "react";
+import { Box, Button, LinearProgress, Paper, Typography } from "@mui/material";
+
+export type MigrationState = "running" | "pausing" | "paused" | "cancelling";
+
+interface MigrationProgressProps {
+  done: number;
+  total: number;
+  state: MigrationState;
+  // Like cache stats or retries
+  message?: string;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+const stateLabels: { [state in MigrationState]: string } = {
+  running: "Migrating",
+  pausing: "Pausing after the notes in flight",
+  paused: "Paused",
+  cancelling: "Cancelling after the notes in flight",
+};
+
+const MigrationProgress = ({
+  done,
+  total,
+  state,
+  message,
+  onPause,
+  onResume,
+  onCancel,
+}: MigrationProgressProps) => (
+  <Paper
+    elevation={3}
+    sx={{
+      position: "sticky",
+      top: 0,
+      zIndex: (theme) => theme.zIndex.appBar,
+      width: "100%",
+      p: 2,
+      mt: 2,
+    }}
+  >
+    <Typography>
+      {stateLabels[state]}... {done} of {total} notes
+    </Typography>
+    <LinearProgress
+      variant="determinate"
+      value={total > 0 ? (done / total) * 100 : 0}
+      sx={{ my: 1 }}
+    />
+    {message && (
+      <Typography variant="body2" color="text.secondary">
+        {message}
+      </Typography>
+    )}
+    <Box sx={{ display: "flex", gap: 1, mt: 1 }}>
+      {state === "paused" || state === "pausing" ? (
+        <Button variant="contained" onClick={onResume}>
+          Resume
+        </Button>
+      ) : (
+        <Button
+          variant="contained"
+          onClick={onPause}
+          disabled={state === "cancelling"}
+        >
+          Pause
+        </Button>
+      )}
+      <Button
+        variant="outlined"
+        color="error"
+        onClick={onCancel}
+        disabled={state === "cancelling"}
+      >
+        Cancel
+      </Button>
+    </Box>
+  </Paper>
+);
+
+export default MigrationProgress;
@@ -0,0 +1,241 @@
+import React, { useState } from "react";
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  ListItemText,
+  MenuItem,
+  TextField,
+} from "@mui/material";
+import {
+  createProfile,
+  deleteProfile,
+  getCurrentProfile,
+  getProfiles,
+  getProfileSummary,
+  renameProfile,
+  switchProfile,
+} from "@/common/session";
+
+interface ProfileSwitcherProps {
+  // Current profile changed, its settings should be loaded again
+  onSwitch: () => void;
+}
+
+const describeProfile = (profileId: string): string => {
+  const summary = getProfileSummary(profileId);
+  return [
+    summary.characterHandle && `@${summary.characterHandle}`,
+    summary.channelName && `t.me/${summary.channelName}`,
+    `${summary.migrated} migrated`,
+    summary.failed > 0 && `${summary.failed} failed`,
+  ]
+    .filter((part) => !!part)
+    .join(" · ");
+};
+
+const namingTitles = {
+  create: "New profile",
+  duplicate: "Duplicate profile",
+  rename: "Rename profile",
+};
+
+const ProfileSwitcher = ({ onSwitch }: ProfileSwitcherProps) => {
+  const [currentId, setCurrentId] = useState(getCurrentProfile().id);
+  // Dialog asking for a name, closed if null
+  const [naming, setNaming] = useState<keyof typeof namingTitles | null>(null);
+  const [name, setName] = useState("");
+  const [isConfirmingDelete, setConfirmingDelete] = useState(false);
+
+  const profiles = getProfiles();
+
+  const switchTo = (profileId: string) => {
+    switchProfile(profileId);
+    setCurrentId(profileId);
+    onSwitch();
+  };
+
+  const startNaming = (mode: keyof typeof namingTitles) => {
+    const currentName = getCurrentProfile().name;
+    setName(
+      mode === "rename"
+        ? currentName
+        : mode === "duplicate"
+        ? `${currentName} (copy)`
+        : ""
+    );
+    setNaming(mode);
+  };
+
+  return (
+    <>
+      {/*Profile Name Dialog*/}
+      <Dialog
+        open={naming !== null}
+        onClose={() => {
+          setNaming(null);
+        }}
+        aria-labelledby="profile-name-dialog-title"
+      >
+        <DialogTitle id="profile-name-dialog-title">
+          {naming && namingTitles[naming]}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            margin="dense"
+            fullWidth
+            autoFocus
+            label="Name"
+            helperText={
+              naming === "duplicate"
+                ? "Settings are copied, progress starts empty."
+                : undefined
+            }
+            value={name}
+            onChange={(ev) => {
+              setName(ev.target.value);
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setNaming(null);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            disabled={!name.trim()}
+            onClick={() => {
+              if (naming === "rename") {
+                renameProfile(currentId, name.trim());
+              } else {
+                switchTo(
+                  createProfile(
+                    name.trim(),
+                    naming === "duplicate" ? currentId : undefined
+                  ).id
+                );
+              }
+              setNaming(null);
+            }}
+            variant="contained"
+          >
+            OK
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/*Delete Profile Dialog*/}
+      <Dialog
+        open={isConfirmingDelete}
+        onClose={() => {
+          setConfirmingDelete(false);
+        }}
+        aria-labelledby="delete-profile-dialog-title"
+        aria-describedby="delete-profile-dialog-description"
+      >
+        <DialogTitle id="delete-profile-dialog-title">
+          {"Delete profile"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="delete-profile-dialog-description">
+            Settings and progress of "{getCurrentProfile().name}" will be
+            removed. Notes already posted stay on Crossbell, but they will be
+            posted again if its messages are migrated from another profile.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setConfirmingDelete(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              deleteProfile(currentId);
+              setCurrentId(getCurrentProfile().id);
+              setConfirmingDelete(false);
+              onSwitch();
+            }}
+            color="error"
+            variant="contained"
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      <TextField
+        select
+        margin="normal"
+        fullWidth
+        name="profile"
+        label="Profile"
+        helperText="Each profile has its own channel, character, options and progress. Unsaved changes below are lost when switching."
+        SelectProps={{
+          renderValue: (value) =>
+            profiles.find((profile) => profile.id === value)?.name,
+        }}
+        value={currentId}
+        onChange={(ev) => {
+          switchTo(ev.target.value);
+        }}
+      >
+        {profiles.map((profile) => (
+          <MenuItem key={profile.id} value={profile.id}>
+            <ListItemText
+              primary={profile.name}
+              secondary={describeProfile(profile.id)}
+            />
+          </MenuItem>
+        ))}
+      </TextField>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+        <Button
+          size="small"
+          onClick={() => {
+            startNaming("create");
+          }}
+        >
+          New
+        </Button>
+        <Button
+          size="small"
+          onClick={() => {
+            startNaming("duplicate");
+          }}
+        >
+          Duplicate
+        </Button>
+        <Button
+          size="small"
+          onClick={() => {
+            startNaming("rename");
+          }}
+        >
+          Rename
+        </Button>
+        <Button
+          size="small"
+          color="error"
+          disabled={profiles.length <= 1}
+          onClick={() => {
+            setConfirmingDelete(true);
+          }}
+        >
+          Delete
+        </Button>
+      </Box>
+    </>
+  );
+};
+
+export default ProfileSwitcher;
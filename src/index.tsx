@@ -4,14 +4,25 @@ import CssBaseline from "@mui/material/CssBaseline";
 import { ThemeProvider } from "@mui/material/styles";
 import theme from "./theme";
 import Router from "./router";
+import { loadProgress } from "./common/session";
 
 const rootElement = document.getElementById("root");
 const root = createRoot(rootElement!);
 
-root.render(
-  <ThemeProvider theme={theme}>
-    {/* CssBaseline kickstart an elegant, consistent, and simple baseline to build upon. */}
-    <CssBaseline />
-    <Router />
-  </ThemeProvider>
+// Pages read progress as it is, so it's loaded first. Without it notes
+// would be posted again, so nothing is shown when it fails.
+loadProgress().then(
+  () => {
+    root.render(
+      <ThemeProvider theme={theme}>
+        {/* CssBaseline kickstart an elegant, consistent, and simple baseline to build upon. */}
+        <CssBaseline />
+        <Router />
+      </ThemeProvider>
+    );
+  },
+  (e) => {
+    console.error(e);
+    rootElement!.textContent = `Failed to load progress: ${e.message}`;
+  }
 );
@@ -12,11 +12,14 @@ import {
 import { removeOperator } from "@/common/contract";
 import Loading from "@/components/Loading";
 import { clearSetting, cleatProgress } from "@/common/session";
+import { ledgerToCsv, ledgerToJson } from "@/common/ledger";
+import { downloadFile } from "@/common/download";
 
 const Finish = () => {
   const [isLoading, setLoading] = useState(false);
   const [isShowingError, setShowingError] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
+  const [isConfirmingClear, setConfirmingClear] = useState(false);
 
   return (
     <>
@@ -49,6 +52,48 @@ const Finish = () => {
         </DialogActions>
       </Dialog>
 
+      {/*Clear Progress Dialog*/}
+      <Dialog
+        open={isConfirmingClear}
+        onClose={() => {
+          setConfirmingClear(false);
+        }}
+        aria-labelledby="clear-progress-dialog-title"
+        aria-describedby="clear-progress-dialog-description"
+      >
+        <DialogTitle id="clear-progress-dialog-title">
+          {"Clear settings and progress"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="clear-progress-dialog-description">
+            Settings, the ledger and failures of this profile will be removed,
+            download the ledger first to keep it. Notes already posted stay on
+            Crossbell, but they will be posted again if the messages are
+            migrated once more.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setConfirmingClear(false);
+            }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => {
+              clearSetting();
+              cleatProgress();
+              setConfirmingClear(false);
+            }}
+            color="error"
+            variant="contained"
+          >
+            Clear
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       <Box
         sx={{
           marginTop: 8,
@@ -68,8 +113,36 @@ const Finish = () => {
           <Typography>
             Migration is now finished, thanks for your patience.
             <br />
+            You can download the ledger of migrated notes for your records.
+            <br />
             Don't forget to unauthorizing the operator, for safety concerns!
           </Typography>
+          <Box sx={{ mt: 3, display: "flex", gap: 2 }}>
+            <Button
+              type="button"
+              fullWidth
+              variant="outlined"
+              onClick={() => {
+                downloadFile(
+                  "t2c-ledger.json",
+                  ledgerToJson(),
+                  "application/json"
+                );
+              }}
+            >
+              Download ledger (JSON)
+            </Button>
+            <Button
+              type="button"
+              fullWidth
+              variant="outlined"
+              onClick={() => {
+                downloadFile("t2c-ledger.csv", ledgerToCsv(), "text/csv");
+              }}
+            >
+              Download ledger (CSV)
+            </Button>
+          </Box>
           <Button
             type="button"
             fullWidth
@@ -86,14 +159,21 @@ const Finish = () => {
                 setShowingError(true);
               }
 
-              // Clear settings and progress
-              clearSetting();
-              cleatProgress();
               setLoading(false);
             }}
           >
             Unauthorize Operator
           </Button>
+          <Button
+            type="button"
+            fullWidth
+            color="error"
+            onClick={() => {
+              setConfirmingClear(true);
+            }}
+          >
+            Clear settings and progress
+          </Button>
         </Box>
       </Box>
     </>
@@ -1,21 +1,10 @@
-import React, { useCallback, useEffect } from "react";
+import React from "react";
 import { Box, Button, Typography } from "@mui/material";
 import { useNavigate } from "react-router-dom";
 
 const Intro = () => {
   const nav = useNavigate();
 
-  const schemaCheck = useCallback(() => {
-    const schema = window.location.protocol;
-    if (schema !== "http:" && schema !== "https:") {
-      nav("/error");
-    }
-  }, [nav]);
-
-  useEffect(() => {
-    schemaCheck();
-  }, []);
-
   return (
     <Box
       sx={{
@@ -48,6 +37,9 @@ const Intro = () => {
           a random one should be fine. DON'T use any valuable ones <br />
           because it could be dangerous to expose them. <br />
           <br />
+          You will also be asked to select your Telegram exported data's <br />
+          directory (or a zip of it), it's only read inside your browser. <br />
+          <br />
           For safety concerns, private keys won't be saved into checkpoint.
         </Typography>
         <Button
@@ -1,8 +1,14 @@
-import React, { useEffect, useState } from "react";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Virtuoso } from "react-virtuoso";
 import {
   Box,
   Button,
-  Checkbox,
   Dialog,
   DialogActions,
   DialogContent,
@@ -10,33 +16,74 @@ import {
   DialogTitle,
   List,
   ListItem,
-  ListItemButton,
-  ListItemIcon,
   ListItemText,
   Typography,
 } from "@mui/material";
-import {
-  TGExportMessageData,
-  ParseMessageText,
-  signerPostNote,
-  TGExportMessageDataWithPhotos,
-} from "@/common/contract";
+import { TGExportMessageDataWithPhotos } from "@/common/contract";
 import Loading from "@/components/Loading";
-import { getProgress, getSetting, setProgress } from "@/common/session";
-import { AccessTime, Add, AddTask, Check } from "@mui/icons-material";
-import { useNavigate } from "react-router-dom";
-
-interface messagesPendingMigration {
-  // Original message data
-  message: TGExportMessageDataWithPhotos;
-
-  // Let user select this
-  isToMigrate: boolean;
-
-  // Status
-  isPendingMigrate: boolean;
-  isMigrated: boolean;
-}
+import MessageListItem, {
+  getItemKey,
+  messagesPendingMigration,
+} from "@/components/MessageListItem";
+import MessageFilterBar from "@/components/MessageFilterBar";
+import ContentEditor from "@/components/ContentEditor";
+import MigrationProgress, {
+  MigrationState,
+} from "@/components/MigrationProgress";
+import { getExportResult, isExportLoaded } from "@/common/export";
+import ChatPicker from "@/components/ChatPicker";
+import {
+  aggregateMessages,
+  claimLegacyChatProgress,
+  ExportChat,
+  getExportChats,
+  getMessageIds,
+  isAggregateMigrated,
+  isSelectedByDefault,
+  mergeMessages,
+  splitMessage,
+} from "@/common/messages";
+import {
+  createMigrateControl,
+  MigrateControl,
+  migrateMessages,
+} from "@/common/migrate";
+import {
+  createDryRunBundle,
+  createDryRunPlan,
+  describeDryRunBundle,
+  DryRunBundle,
+  dryRunMessage,
+  DryRunNote,
+} from "@/common/dryrun";
+import { downloadFile } from "@/common/download";
+import {
+  createMessageMatcher,
+  emptyMessageFilter,
+  getMessageAuthors,
+  MessageFilter,
+} from "@/common/filter";
+import {
+  CostEstimate,
+  createBalanceGuard,
+  describeCostEstimate,
+  estimateMigrationCost,
+  formatCSB,
+  getFaucetLink,
+} from "@/common/cost";
+import {
+  describeUploadCacheStats,
+  resetUploadCacheStats,
+} from "@/common/cache";
+import {
+  getChatProgress,
+  getMessageFailure,
+  getMessageOverride,
+  getSetting,
+  setMessageOverride,
+  setSetting,
+} from "@/common/session";
+import { useLocation, useNavigate } from "react-router-dom";
 
 const Migrate = () => {
   const [isLoading, setLoading] = useState(true);
@@ -47,101 +94,380 @@ const Migrate = () => {
   const [isShowingError, setShowingError] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
 
-  const [messages, setMessages] = useState<messagesPendingMigration[]>([]);
+  // Keys of listed messages in order, see getItemKey
+  const [order, setOrder] = useState<string[]>([]);
+  // Messages by key, each one replaced when it changes, so updates don't
+  // copy the whole list
+  const itemsRef = useRef(new Map<string, messagesPendingMigration>());
+  // Same as order, for callbacks that stay the same between renders
+  const orderRef = useRef<string[]>([]);
+  // Bumped when any message changes
+  const [revision, setRevision] = useState(0);
+  const [exportChats, setExportChats] = useState<ExportChat[]>([]);
+  const [isChoosingChats, setChoosingChats] = useState(false);
+  const [dryRunBundle, setDryRunBundle] = useState<DryRunBundle | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+  const [isShowingFailures, setShowingFailures] = useState(false);
+  const [filter, setFilter] = useState<MessageFilter>(emptyMessageFilter);
+  // Key of the message in the content editor
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  // Waiting for confirmation of the cost
+  const [pendingRun, setPendingRun] = useState<CostEstimate | null>(null);
+  // Paused until the balance is topped up
+  const [lowBalance, setLowBalance] = useState<{
+    balance: number;
+    required: number;
+  } | null>(null);
+  // Of the running migration, null when idle
+  const [progress, setProgress] = useState<{
+    done: number;
+    total: number;
+    message: string;
+  } | null>(null);
+  const [migrationState, setMigrationState] =
+    useState<MigrationState>("running");
+  const controlRef = useRef<MigrateControl | null>(null);
+  const resumeRef = useRef<{
+    resume: () => void;
+    stop: (e: Error) => void;
+  } | null>(null);
+
+  const getItem = (key: string): messagesPendingMigration =>
+    itemsRef.current.get(key)!;
+
+  const wrapMessage = (
+    chat: ExportChat,
+    msg: TGExportMessageDataWithPhotos,
+    isToMigrate: boolean
+  ): messagesPendingMigration => {
+    const chatProgress = getChatProgress(chat.id);
+    const isMigrated = isAggregateMigrated(chatProgress, msg);
+    return {
+      message: msg,
+      chat,
+      isToMigrate: !isMigrated && isToMigrate,
+      isPendingMigrate: false,
+      isMigrated,
+      failedReason: getMessageFailure(chatProgress, msg.id)?.reason,
+      override: getMessageOverride(chatProgress, msg.id),
+    };
+  };
+
+  // Edits of the messages as they were would drop text or attachments
+  const clearOverrides = (
+    chat: ExportChat,
+    msg: TGExportMessageDataWithPhotos
+  ) => {
+    const chatProgress = getChatProgress(chat.id);
+    for (const id of getMessageIds(msg)) {
+      if (getMessageOverride(chatProgress, id)) {
+        setMessageOverride(chat.id, id, undefined);
+      }
+    }
+  };
+
+  const updateOrder = (keys: string[]) => {
+    orderRef.current = keys;
+    setOrder(keys);
+  };
 
-  const loadMessages = async () => {
+  const loadMessages = async (selectedChats: ExportChat[]) => {
     // Set
     setLoadingMessage("Loading messages...");
     setLoading(true);
 
     // Get settings
     const settings = getSetting();
+    claimLegacyChatProgress(selectedChats, settings);
     try {
-      // Load file
-      const results = await fetch("result.json").then((res) => res.json());
-      const currentProgress = getProgress();
-
-      const msgs = results.messages as TGExportMessageData[];
-      let msgsWithPhotos = [] as TGExportMessageDataWithPhotos[];
-      if (settings.aggregatedByTsp) {
-        let lastMsg: TGExportMessageDataWithPhotos = msgs[0];
-        let lastTsp = +msgs[0].date_unixtime;
-
-        for (const msg of msgs.slice(1)) {
-          const msgPhoto = {
-            photo: msg.photo,
-            width: msg.width,
-            height: msg.height,
-          };
-          // If tsps of messages are less than 5, and only one of them contains text, they are regarded as one note
-          if (
-            Math.abs(+msg.date_unixtime - lastTsp) < 5 &&
-            msg.photo &&
-            (msg.text === "" || lastMsg.text === "")
-          ) {
-            if (!lastMsg.photos) {
-              lastMsg.photos = [msgPhoto];
-            } else {
-              lastMsg.photos.push(msgPhoto);
-            }
-            if (!lastMsg.text) {
-              lastMsg.text = msg.text;
-              lastMsg.text_entities = msg.text_entities;
-            }
-          } else {
-            msgsWithPhotos.push(lastMsg);
-            lastMsg = msg.photo
-              ? {
-                  photos: [msgPhoto],
-                  ...msg,
-                }
-              : msg;
-          }
-          lastTsp = +msg.date_unixtime;
+      const items = new Map<string, messagesPendingMigration>();
+      // Messages are aggregated inside each chat
+      for (const chat of selectedChats) {
+        for (const msg of aggregateMessages(chat.messages, settings)) {
+          items.set(
+            getItemKey(chat.id, msg.id),
+            wrapMessage(chat, msg, isSelectedByDefault(msg, settings))
+          );
         }
-        msgsWithPhotos.push(lastMsg);
-      } else {
-        msgsWithPhotos = msgs.map((msg) => {
-          const msgPhoto = {
-            photo: msg.photo,
-            width: msg.width,
-            height: msg.height,
-          };
-          return {
-            photos: [msgPhoto],
-            ...msg,
-          };
+      }
+
+      console.log("Parsed messages: ", items.size);
+
+      itemsRef.current = items;
+      updateOrder(Array.from(items.keys()));
+      setRevision((current) => current + 1);
+    } catch (e: any) {
+      setErrorMessage(e.message);
+      setShowingError(true);
+    }
+    setLoading(false);
+  };
+
+  const nav = useNavigate();
+  // Came from Settings without signer, nothing can be posted
+  const isDryRunOnly = !!useLocation().state?.isDryRun;
+
+  const updateMessage = (
+    key: string,
+    patch: Partial<messagesPendingMigration>
+  ) => {
+    const item = itemsRef.current.get(key);
+    if (!item) {
+      return;
+    }
+    itemsRef.current.set(key, { ...item, ...patch });
+    setRevision((current) => current + 1);
+  };
+
+  const matcher = useMemo(() => {
+    try {
+      return createMessageMatcher(filter, getSetting());
+    } catch (e) {
+      // Invalid regex, shown in the filter bar
+      return createMessageMatcher({ ...filter, search: "" }, getSetting());
+    }
+  }, [filter]);
+
+  // Only merging and splitting change messages, which change the order too
+  const shownKeys = useMemo(
+    () => order.filter((key) => matcher(getItem(key).message)),
+    [order, matcher]
+  );
+
+  const positions = useMemo(
+    () => new Map(order.map((key, position) => [key, position])),
+    [order]
+  );
+
+  const authors = useMemo(
+    () => getMessageAuthors(order.map((key) => getItem(key).message)),
+    [order]
+  );
+
+  const counts = useMemo(() => {
+    let selected = 0;
+    let migrated = 0;
+    itemsRef.current.forEach((wrappedMessage) => {
+      selected += wrappedMessage.isToMigrate ? 1 : 0;
+      migrated += wrappedMessage.isMigrated ? 1 : 0;
+    });
+    return { selected, migrated };
+  }, [revision]);
+
+  const nextKey = (key: string): string | undefined =>
+    order[positions.get(key)! + 1];
+
+  const canMergeWithNext = (key: string): boolean => {
+    const next = nextKey(key);
+    return (
+      next !== undefined &&
+      getItem(next).chat === getItem(key).chat &&
+      !getItem(next).isMigrated
+    );
+  };
+
+  // Stay the same between renders, so only changed rows render again
+  const handleToggle = useCallback((key: string) => {
+    const item = itemsRef.current.get(key)!;
+    updateMessage(key, { isToMigrate: !item.isToMigrate });
+  }, []);
+
+  // Aggregates an item with the one after it, by hand
+  const handleMergeWithNext = useCallback((key: string) => {
+    const current = orderRef.current;
+    const position = current.indexOf(key);
+    const nextKey = current[position + 1];
+    const first = itemsRef.current.get(key)!;
+    const second = itemsRef.current.get(nextKey);
+    if (!second || second.chat !== first.chat) {
+      return;
+    }
+
+    clearOverrides(first.chat, first.message);
+    clearOverrides(second.chat, second.message);
+    itemsRef.current.set(key, {
+      ...first,
+      message: mergeMessages(first.chat, first.message, second.message),
+      isToMigrate: first.isToMigrate || second.isToMigrate,
+      override: undefined,
+    });
+    itemsRef.current.delete(nextKey);
+    updateOrder(
+      current
+        .slice(0, position + 1)
+        .concat(current.slice(position + 2, current.length))
+    );
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  const handleSplit = useCallback((key: string) => {
+    const current = orderRef.current;
+    const position = current.indexOf(key);
+    const wrappedMessage = itemsRef.current.get(key)!;
+    clearOverrides(wrappedMessage.chat, wrappedMessage.message);
+    const partKeys = splitMessage(
+      wrappedMessage.chat,
+      wrappedMessage.message
+    ).map((message) => {
+      const partKey = getItemKey(wrappedMessage.chat.id, message.id);
+      itemsRef.current.set(
+        partKey,
+        wrapMessage(wrappedMessage.chat, message, wrappedMessage.isToMigrate)
+      );
+      return partKey;
+    });
+    updateOrder(
+      current
+        .slice(0, position)
+        .concat(partKeys)
+        .concat(current.slice(position + 1, current.length))
+    );
+    setRevision((revision) => revision + 1);
+  }, []);
+
+  const handleEdit = useCallback((key: string) => {
+    setEditingKey(key);
+  }, []);
+
+  // Already migrated ones are left unselected
+  const updateShownSelection = (select: (isToMigrate: boolean) => boolean) => {
+    for (const key of shownKeys) {
+      const wrappedMessage = getItem(key);
+      if (!wrappedMessage.isMigrated) {
+        itemsRef.current.set(key, {
+          ...wrappedMessage,
+          isToMigrate: select(wrappedMessage.isToMigrate),
         });
       }
+    }
+    setRevision((current) => current + 1);
+  };
 
-      const parsedMessages = msgsWithPhotos.map(
-        (msg: TGExportMessageDataWithPhotos): messagesPendingMigration => {
-          const isService = msg.type === "service";
-          const isMigrated = currentProgress.finishedIDs.includes(msg.id);
-          return {
-            message: msg,
-            isToMigrate: !isMigrated && (settings.includeService || !isService),
-            isPendingMigrate: false,
-            isMigrated,
-          };
-        }
+  const confirmMigration = async () => {
+    setLoading(true);
+    setLoadingMessage("Estimating cost...");
+
+    try {
+      setPendingRun(
+        await estimateMigrationCost(
+          order.filter(
+            (key) => getItem(key).isToMigrate && !getItem(key).isMigrated
+          ).length
+        )
+      );
+    } catch (e: any) {
+      console.log(e);
+      setErrorMessage(`Failed to estimate cost: ${e.message}`);
+      setShowingError(true);
+    }
+
+    setLoading(false);
+  };
+
+  const runMigration = async (perNoteCost: number) => {
+    resetUploadCacheStats();
+
+    const settings = getSetting();
+    const control = createMigrateControl();
+    controlRef.current = control;
+    setMigrationState("running");
+
+    // Keys of selected messages in the list
+    const selected = order.filter((key) => getItem(key).isToMigrate);
+
+    try {
+      let done = 0;
+      const updateProgress = (message?: string) => {
+        setProgress({
+          done,
+          total: selected.length,
+          message: message || describeUploadCacheStats(),
+        });
+      };
+      updateProgress("Initializing basic information...");
+
+      // Completed ones are skipped, so it resumes
+      const failed = await migrateMessages(
+        selected.map(getItem),
+        settings,
+        {
+          onPosting: (i) => {
+            updateMessage(selected[i], { isPendingMigrate: true });
+          },
+          onMigrated: (i) => {
+            done++;
+            updateProgress();
+            updateMessage(selected[i], {
+              isPendingMigrate: false,
+              isMigrated: true,
+              failedReason: undefined,
+            });
+          },
+          onFailed: (i, e) => {
+            done++;
+            updateProgress();
+            updateMessage(selected[i], {
+              isPendingMigrate: false,
+              failedReason: e.message,
+            });
+          },
+          onRetry: (i, e, attempt, delay) => {
+            updateProgress(
+              `Retrying #${getItem(selected[i]).message.id} in ${Math.round(
+                delay / 1000
+              )}s (${attempt}/${settings.retryCount}): ${e.message}`
+            );
+          },
+          beforePosting: createBalanceGuard(
+            perNoteCost,
+            (balance, required) =>
+              new Promise((resolve, reject) => {
+                resumeRef.current = { resume: resolve, stop: reject };
+                setLowBalance({ balance, required });
+              })
+          ),
+          onPaused: () => {
+            setMigrationState("paused");
+          },
+        },
+        control
       );
 
-      console.log("Parsed messages: ", parsedMessages);
+      console.log("All finished");
 
-      setMessages(parsedMessages);
+      if (failed > 0) {
+        setFailedCount(failed);
+        setShowingFailures(true);
+      } else if (!control.isCancelled()) {
+        nav("/finish");
+      }
     } catch (e: any) {
+      console.log(e);
       setErrorMessage(e.message);
       setShowingError(true);
     }
-    setLoading(false);
+
+    controlRef.current = null;
+    setProgress(null);
   };
 
   useEffect(() => {
-    loadMessages();
-  }, []);
+    if (!isExportLoaded()) {
+      // Export selection is lost on reload
+      nav("/settings");
+      return;
+    }
 
-  const nav = useNavigate();
+    const allChats = getExportChats(getExportResult());
+    setExportChats(allChats);
+    if (allChats[0]?.isFromAccountExport) {
+      // Let user pick chats first
+      setChoosingChats(true);
+      setLoading(false);
+    } else {
+      loadMessages(allChats);
+    }
+  }, []);
 
   return (
     <>
@@ -174,6 +500,225 @@ const Migrate = () => {
         </DialogActions>
       </Dialog>
 
+      {/*Failures Dialog*/}
+      <Dialog
+        open={isShowingFailures}
+        onClose={() => {
+          setShowingFailures(false);
+        }}
+        aria-labelledby="failures-dialog-title"
+        aria-describedby="failures-dialog-description"
+      >
+        <DialogTitle id="failures-dialog-title">
+          {"Some messages failed"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="failures-dialog-description">
+            {failedCount} messages couldn't be migrated, they are marked in the
+            list with the reason. You can retry only them, or finish now and
+            come back later.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setShowingFailures(false);
+              nav("/finish");
+            }}
+          >
+            Finish
+          </Button>
+          <Button
+            onClick={() => {
+              setShowingFailures(false);
+              itemsRef.current.forEach((wrappedMessage, key) => {
+                itemsRef.current.set(key, {
+                  ...wrappedMessage,
+                  isToMigrate: !!wrappedMessage.failedReason,
+                });
+              });
+              setRevision((current) => current + 1);
+              confirmMigration();
+            }}
+            autoFocus
+          >
+            Retry failed only
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/*Content Editor*/}
+      <ContentEditor
+        chat={editingKey !== null ? getItem(editingKey).chat : null}
+        message={editingKey !== null ? getItem(editingKey).message : null}
+        override={
+          editingKey !== null ? getItem(editingKey).override : undefined
+        }
+        onSave={(override) => {
+          const { chat, message } = getItem(editingKey!);
+          setMessageOverride(chat.id, message.id, override);
+          updateMessage(editingKey!, { override });
+          setEditingKey(null);
+        }}
+        onClose={() => {
+          setEditingKey(null);
+        }}
+      />
+
+      {/*Cost Dialog*/}
+      <Dialog
+        open={pendingRun !== null}
+        onClose={() => {
+          setPendingRun(null);
+        }}
+        aria-labelledby="cost-dialog-title"
+        aria-describedby="cost-dialog-description"
+      >
+        <DialogTitle id="cost-dialog-title">{"Estimated cost"}</DialogTitle>
+        <DialogContent>
+          <DialogContentText id="cost-dialog-description">
+            {pendingRun && describeCostEstimate(pendingRun)}.
+            {pendingRun && !pendingRun.isSufficient && (
+              <>
+                <br />
+                It's not enough for all of them, better get some from the faucet
+                first. Otherwise it will pause when running low.
+              </>
+            )}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setPendingRun(null);
+            }}
+          >
+            Cancel
+          </Button>
+          {pendingRun && !pendingRun.isSufficient && (
+            <Button
+              onClick={() => {
+                window.open(getFaucetLink(), "_blank");
+              }}
+            >
+              Get $CSB
+            </Button>
+          )}
+          <Button
+            onClick={() => {
+              const estimate = pendingRun!;
+              setPendingRun(null);
+              runMigration(estimate.perNote);
+            }}
+            variant="contained"
+            autoFocus
+          >
+            Start
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/*Low Balance Dialog*/}
+      <Dialog
+        open={lowBalance !== null}
+        aria-labelledby="low-balance-dialog-title"
+        aria-describedby="low-balance-dialog-description"
+      >
+        <DialogTitle id="low-balance-dialog-title">
+          {"Paused for insufficient $CSB balance"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="low-balance-dialog-description">
+            The signer has {lowBalance && formatCSB(lowBalance.balance)}, while
+            the remaining notes need about{" "}
+            {lowBalance && formatCSB(lowBalance.required)}. Get some from the
+            faucet, then resume.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setLowBalance(null);
+              resumeRef.current?.stop(
+                new Error("Stopped for insufficient $CSB balance")
+              );
+            }}
+          >
+            Stop
+          </Button>
+          <Button
+            onClick={() => {
+              window.open(getFaucetLink(), "_blank");
+            }}
+          >
+            Get $CSB
+          </Button>
+          <Button
+            onClick={() => {
+              setLowBalance(null);
+              resumeRef.current?.resume();
+            }}
+            variant="contained"
+            autoFocus
+          >
+            Resume
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/*Dry Run Dialog*/}
+      <Dialog
+        open={dryRunBundle !== null}
+        onClose={() => {
+          setDryRunBundle(null);
+        }}
+        aria-labelledby="dry-run-dialog-title"
+        aria-describedby="dry-run-dialog-description"
+      >
+        <DialogTitle id="dry-run-dialog-title">
+          {"Dry run finished"}
+        </DialogTitle>
+        <DialogContent>
+          <DialogContentText id="dry-run-dialog-description">
+            Nothing was uploaded or posted. Would publish{" "}
+            {dryRunBundle && describeDryRunBundle(dryRunBundle)}.
+          </DialogContentText>
+          <List dense>
+            {dryRunBundle?.notes.flatMap((note) =>
+              note.warnings.map((warning, index) => (
+                <ListItem key={`${note.chatId}-${note.messageId}-${index}`}>
+                  <ListItemText
+                    primary={warning}
+                    secondary={`Message #${note.messageId}`}
+                  />
+                </ListItem>
+              ))
+            )}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button
+            onClick={() => {
+              setDryRunBundle(null);
+            }}
+          >
+            Close
+          </Button>
+          <Button
+            onClick={() => {
+              downloadFile(
+                "telegram2crossbell-dry-run.json",
+                JSON.stringify(dryRunBundle, null, 2),
+                "application/json"
+              );
+            }}
+            autoFocus
+          >
+            Download bundle
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       <Box
         sx={{
           marginTop: 8,
@@ -186,194 +731,149 @@ const Migrate = () => {
           Migrate
         </Typography>
 
-        <Box
-          sx={{
-            marginTop: 2,
-          }}
-        >
-          <Button
-            type="button"
-            fullWidth
-            variant="contained"
-            sx={{ mt: 3, mb: 2 }}
-            onClick={async () => {
-              setLoading(true);
-              setLoadingMessage("Initializing basic information...");
+        {isChoosingChats ? (
+          <ChatPicker
+            chats={exportChats}
+            onConfirm={(selectedChats, channelNames) => {
+              setSetting({
+                ...getSetting(),
+                chatChannelNames: channelNames,
+              });
+              setChoosingChats(false);
+              loadMessages(selectedChats);
+            }}
+          />
+        ) : (
+          <>
+            <Box
+              sx={{
+                marginTop: 2,
+              }}
+            >
+              <Button
+                type="button"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2 }}
+                disabled={progress !== null || isDryRunOnly}
+                onClick={() => {
+                  confirmMigration();
+                }}
+              >
+                Start processing
+              </Button>
+              {isDryRunOnly && (
+                <Typography variant="body2" color="text.secondary" mb={2}>
+                  Dry run only, start from Settings with a signer to migrate.
+                </Typography>
+              )}
+              <Button
+                type="button"
+                fullWidth
+                variant="outlined"
+                sx={{ mb: 2 }}
+                disabled={progress !== null}
+                onClick={async () => {
+                  setLoading(true);
 
-              const settings = getSetting();
+                  const settings = getSetting();
 
-              setProgress({
-                ...getProgress(),
-                finishedIDs: [],
-              });
+                  try {
+                    const notes: DryRunNote[] = [];
+                    const plan = createDryRunPlan();
+                    for (let index = 0; index < order.length; index++) {
+                      const wrappedMessage = getItem(order[index]);
+                      setLoadingMessage(
+                        `Preparing ${index} of ${order.length} notes...`
+                      );
+                      if (wrappedMessage.isToMigrate) {
+                        const note = await dryRunMessage(
+                          wrappedMessage.chat,
+                          wrappedMessage.message,
+                          settings,
+                          plan
+                        );
+                        if (note) {
+                          notes.push(note);
+                        }
+                      }
+                    }
 
-              try {
-                for (let index = 0; index < messages.length; index++) {
-                  const wrappedMessage = messages[index];
-                  setLoadingMessage(
-                    `Processing ${index} of ${messages.length} notes...`
-                  );
-                  if (wrappedMessage.isToMigrate) {
-                    setMessages(
-                      messages
-                        .slice(0, index)
-                        .concat([
-                          {
-                            ...wrappedMessage,
-                            isPendingMigrate: true,
-                          },
-                        ])
-                        .concat(messages.slice(index + 1, messages.length))
-                    );
-                    await signerPostNote(
-                      wrappedMessage.message,
-                      settings.channelName
-                    );
-                    const progress = getProgress();
-                    setProgress({
-                      ...progress,
-                      finishedIDs: progress.finishedIDs.concat(
-                        wrappedMessage.message.id
-                      ),
-                    });
-                    setMessages(
-                      messages
-                        .slice(0, index)
-                        .concat([
-                          {
-                            ...wrappedMessage,
-                            isPendingMigrate: false,
-                            isMigrated: true,
-                          },
-                        ])
-                        .concat(messages.slice(index + 1, messages.length))
-                    );
+                    setDryRunBundle(createDryRunBundle(notes, settings));
+                  } catch (e: any) {
+                    console.log(e);
+                    setErrorMessage(e.message);
+                    setShowingError(true);
                   }
-                }
 
-                console.log("All finished");
+                  setLoading(false);
+                }}
+              >
+                Dry run
+              </Button>
+            </Box>
 
-                nav("/finish");
-              } catch (e: any) {
-                console.log(e);
-                setErrorMessage(e.message);
-                setShowingError(true);
-              }
+            {progress && (
+              <MigrationProgress
+                done={progress.done}
+                total={progress.total}
+                state={migrationState}
+                message={progress.message}
+                onPause={() => {
+                  controlRef.current?.pause();
+                  setMigrationState("pausing");
+                }}
+                onResume={() => {
+                  controlRef.current?.resume();
+                  setMigrationState("running");
+                }}
+                onCancel={() => {
+                  controlRef.current?.cancel();
+                  setMigrationState("cancelling");
+                }}
+              />
+            )}
 
-              setLoading(false);
-            }}
-          >
-            Start processing
-          </Button>
-        </Box>
-
-        <Box display={"flex"} flexDirection={"row"} width={"100%"} mt={8}>
-          <Box flex={1}>
-            <List>
-              {messages.map((wrappedMessage, index) => (
-                <ListItem key={wrappedMessage.message.id}>
-                  <ListItemButton
-                    onClick={() => {
-                      setMessages(
-                        messages
-                          .slice(0, index)
-                          .concat([
-                            {
-                              ...wrappedMessage,
-                              isToMigrate: !wrappedMessage.isToMigrate,
-                            },
-                          ])
-                          .concat(messages.slice(index + 1, messages.length))
-                      );
-                    }}
-                  >
-                    <ListItemIcon>
-                      <Checkbox
-                        edge={"start"}
-                        checked={wrappedMessage.isToMigrate}
-                        disableRipple
-                      />
-                    </ListItemIcon>
-                    <ListItemText
-                      primary={
-                        <Box sx={{ display: "flex", flexDirection: "column" }}>
-                          <span>
-                            {ParseMessageText(wrappedMessage.message)}
-                          </span>
-                          {/*Photo*/}
-                          {wrappedMessage.message.photos &&
-                            wrappedMessage.message.photos.map((photo) => (
-                              <img
-                                key={
-                                  wrappedMessage.message.id.toString() +
-                                  photo.photo
-                                }
-                                src={photo.photo}
-                                alt={photo.photo}
-                                width={300}
-                              />
-                            ))}
-                          {/*Attachment*/}
-                          {wrappedMessage.message.file &&
-                            (wrappedMessage.message.mime_type?.startsWith(
-                              "image"
-                            ) ? (
-                              <img
-                                src={wrappedMessage.message.file}
-                                width={300}
-                              />
-                            ) : wrappedMessage.message.mime_type?.startsWith(
-                                "audio"
-                              ) ? (
-                              <audio controls>
-                                <source
-                                  src={wrappedMessage.message.file}
-                                  type={wrappedMessage.message.mime_type}
-                                />
-                                Your browser does not support the audio tag.
-                              </audio>
-                            ) : wrappedMessage.message.mime_type?.startsWith(
-                                "video"
-                              ) ? (
-                              <video controls width={300}>
-                                <source
-                                  src={wrappedMessage.message.file}
-                                  type={wrappedMessage.message.mime_type}
-                                />
-                                Your browser does not support the video tag.
-                              </video>
-                            ) : (
-                              <div>
-                                Unknown file: {wrappedMessage.message.file} (
-                                {wrappedMessage.message.mime_type})
-                              </div>
-                            ))}
-                        </Box>
-                      }
-                      secondary={new Date(
-                        wrappedMessage.message.date
-                      ).toLocaleString()}
-                      style={{
-                        whiteSpace: "pre-wrap",
-                      }}
-                    />
-                    <ListItemIcon>
-                      {wrappedMessage.isMigrated ? (
-                        <Check />
-                      ) : wrappedMessage.isPendingMigrate ? (
-                        <AccessTime />
-                      ) : wrappedMessage.isToMigrate ? (
-                        <AddTask />
-                      ) : (
-                        <></>
-                      )}
-                    </ListItemIcon>
-                  </ListItemButton>
-                </ListItem>
-              ))}
-            </List>
-          </Box>
-        </Box>
+            <MessageFilterBar
+              filter={filter}
+              authors={authors}
+              onChange={setFilter}
+              matching={shownKeys.length}
+              selected={counts.selected}
+              migrated={counts.migrated}
+              total={order.length}
+              onSelectMatching={() => {
+                updateShownSelection(() => true);
+              }}
+              onDeselectMatching={() => {
+                updateShownSelection(() => false);
+              }}
+              onInvertMatching={() => {
+                updateShownSelection((isToMigrate) => !isToMigrate);
+              }}
+            />
+
+            <Box width={"100%"} mt={2}>
+              <Virtuoso
+                useWindowScroll
+                data={shownKeys}
+                computeItemKey={(_, key) => key}
+                itemContent={(_, key) => (
+                  <MessageListItem
+                    itemKey={key}
+                    wrappedMessage={getItem(key)}
+                    isEditable={progress === null}
+                    canMergeWithNext={canMergeWithNext(key)}
+                    onToggle={handleToggle}
+                    onEdit={handleEdit}
+                    onMergeWithNext={handleMergeWithNext}
+                    onSplit={handleSplit}
+                  />
+                )}
+              />
+            </Box>
+          </>
+        )}
       </Box>
     </>
   );
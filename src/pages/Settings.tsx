@@ -11,10 +11,12 @@ import {
   DialogTitle,
   FormControl,
   FormControlLabel,
+  FormGroup,
   Grid,
   IconButton,
   InputAdornment,
   InputLabel,
+  MenuItem,
   OutlinedInput,
   TextField,
   Typography,
@@ -32,6 +34,22 @@ import {
 } from "@/common/contract";
 import { useNavigate } from "react-router-dom";
 import Loading from "@/components/Loading";
+import ExportLoader from "@/components/ExportLoader";
+import { isExportLoaded } from "@/common/export";
+import { parseTagRules, stringifyTagRules } from "@/common/tags";
+import { compileContentRule, ContentRule } from "@/common/rules";
+import ContentRulesEditor from "@/components/ContentRulesEditor";
+import ProfileSwitcher from "@/components/ProfileSwitcher";
+import { ServiceActionLabels } from "@/common/service";
+import {
+  AggregateMediaType,
+  AggregateMediaTypeLabels,
+} from "@/common/messages";
+import {
+  createStorageBackend,
+  setStorageBackend,
+  StorageBackendType,
+} from "@/common/ipfs";
 
 const Settings = () => {
   const nav = useNavigate();
@@ -40,7 +58,27 @@ const Settings = () => {
   const [characterHandle, setCharacterHandle] = useState("");
   const [channelName, setChannelName] = useState("");
   const [isIncludeService, setIncludeService] = useState(false);
+  const [excludedServiceActions, setExcludedServiceActions] = useState<
+    string[]
+  >([]);
   const [isAggregatedByTsp, setAggregatedByTsp] = useState(false);
+  const [aggregateWindow, setAggregateWindow] = useState(5);
+  const [aggregateMediaTypes, setAggregateMediaTypes] = useState<
+    AggregateMediaType[]
+  >([]);
+  const [isAggregateJoinText, setAggregateJoinText] = useState(false);
+  const [isStripHashtags, setStripHashtags] = useState(false);
+  const [tagRules, setTagRules] = useState("");
+  const [isSkipForwards, setSkipForwards] = useState(false);
+  const [forwardAttribution, setForwardAttribution] = useState("");
+  const [contentRules, setContentRules] = useState<ContentRule[]>([]);
+  const [storageBackend, setStorageBackendType] =
+    useState<StorageBackendType>("relay");
+  const [kuboApiUrl, setKuboApiUrl] = useState("");
+  const [retryCount, setRetryCount] = useState(3);
+  const [uploadConcurrency, setUploadConcurrency] = useState(3);
+  const [notesInFlight, setNotesInFlight] = useState(1);
+  const [isContinueOnError, setContinueOnError] = useState(false);
 
   const [isShowingError, setShowingError] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
@@ -51,7 +89,46 @@ const Settings = () => {
 
   const [isLoading, setLoading] = useState(false);
 
-  useEffect(() => {
+  const saveSettings = () => {
+    setSetting({
+      ...getSetting(),
+      characterHandle,
+      includeService: isIncludeService,
+      excludedServiceActions,
+      aggregatedByTsp: isAggregatedByTsp,
+      aggregateWindow,
+      aggregateMediaTypes,
+      aggregateJoinText: isAggregateJoinText,
+      stripHashtags: isStripHashtags,
+      tagRules: parseTagRules(tagRules),
+      skipForwards: isSkipForwards,
+      forwardAttribution,
+      contentRules,
+      storageBackend,
+      kuboApiUrl,
+      retryCount,
+      uploadConcurrency,
+      notesInFlight,
+      continueOnError: isContinueOnError,
+      channelName: channelName,
+    });
+  };
+
+  // Everything a dry run needs, without signer or operator
+  const checkSettings = () => {
+    // Invalid regexes would fail every message
+    contentRules.forEach(compileContentRule);
+
+    setStorageBackend(createStorageBackend({ storageBackend, kuboApiUrl }));
+
+    // Check Telegram export
+    if (!isExportLoaded()) {
+      throw new Error("Please select your Telegram export first.");
+    }
+  };
+
+  // Also after switching profiles
+  const loadSetting = () => {
     const setting = getSetting();
 
     console.log(setting);
@@ -59,6 +136,26 @@ const Settings = () => {
     setCharacterHandle(setting.characterHandle);
     setChannelName(setting.channelName);
     setIncludeService(setting.includeService);
+    setExcludedServiceActions(setting.excludedServiceActions);
+    setAggregatedByTsp(setting.aggregatedByTsp);
+    setAggregateWindow(setting.aggregateWindow);
+    setAggregateMediaTypes(setting.aggregateMediaTypes);
+    setAggregateJoinText(setting.aggregateJoinText);
+    setStripHashtags(setting.stripHashtags);
+    setTagRules(stringifyTagRules(setting.tagRules));
+    setSkipForwards(setting.skipForwards);
+    setForwardAttribution(setting.forwardAttribution);
+    setContentRules(setting.contentRules);
+    setStorageBackendType(setting.storageBackend);
+    setKuboApiUrl(setting.kuboApiUrl);
+    setRetryCount(setting.retryCount);
+    setUploadConcurrency(setting.uploadConcurrency);
+    setNotesInFlight(setting.notesInFlight);
+    setContinueOnError(setting.continueOnError);
+  };
+
+  useEffect(() => {
+    loadSetting();
   }, []);
 
   return (
@@ -198,6 +295,9 @@ const Settings = () => {
           Settings
         </Typography>
         <Box component="div" sx={{ mt: 1 }}>
+          <Grid>
+            <ProfileSwitcher onSwitch={loadSetting} />
+          </Grid>
           <Grid>
             <FormControl fullWidth variant="outlined">
               <InputLabel htmlFor="signer-private-key">
@@ -255,6 +355,14 @@ const Settings = () => {
               }}
             />
           </Grid>
+          <Grid>
+            <ExportLoader
+              onError={(e) => {
+                setErrorMessage(e.message);
+                setShowingError(true);
+              }}
+            />
+          </Grid>
           <Grid>
             <FormControlLabel
               control={
@@ -268,6 +376,32 @@ const Settings = () => {
               }
               label="Include service notifications"
             />
+            {isIncludeService && (
+              <FormGroup row sx={{ pl: 4 }}>
+                {Object.entries(ServiceActionLabels).map(([action, label]) => (
+                  <FormControlLabel
+                    key={action}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={!excludedServiceActions.includes(action)}
+                        onChange={(ev) => {
+                          setExcludedServiceActions(
+                            ev.target.checked
+                              ? excludedServiceActions.filter(
+                                  (a) => a !== action
+                                )
+                              : excludedServiceActions.concat(action)
+                          );
+                        }}
+                        color="primary"
+                      />
+                    }
+                    label={label}
+                  />
+                ))}
+              </FormGroup>
+            )}
           </Grid>
           <Grid>
             <FormControlLabel
@@ -280,7 +414,226 @@ const Settings = () => {
                   color="primary"
                 />
               }
-              label="Aggregate photos by timestamp (experimental feature)"
+              label="Aggregate messages by timestamp (experimental feature)"
+            />
+            {isAggregatedByTsp && (
+              <Box sx={{ pl: 4 }}>
+                <TextField
+                  margin="dense"
+                  size="small"
+                  name="aggregateWindow"
+                  label="Window (seconds)"
+                  type="number"
+                  inputProps={{ min: 1 }}
+                  value={aggregateWindow}
+                  onChange={(ev) => {
+                    setAggregateWindow(
+                      Math.max(1, parseInt(ev.target.value) || 1)
+                    );
+                  }}
+                />
+                <FormGroup row>
+                  {(
+                    Object.keys(
+                      AggregateMediaTypeLabels
+                    ) as AggregateMediaType[]
+                  ).map((type) => (
+                    <FormControlLabel
+                      key={type}
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={aggregateMediaTypes.includes(type)}
+                          onChange={(ev) => {
+                            setAggregateMediaTypes(
+                              ev.target.checked
+                                ? aggregateMediaTypes.concat(type)
+                                : aggregateMediaTypes.filter((t) => t !== type)
+                            );
+                          }}
+                          color="primary"
+                        />
+                      }
+                      label={AggregateMediaTypeLabels[type]}
+                    />
+                  ))}
+                </FormGroup>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={isAggregateJoinText}
+                      onChange={(ev) => {
+                        setAggregateJoinText(ev.target.checked);
+                      }}
+                      color="primary"
+                    />
+                  }
+                  label="Join texts when both messages have one (otherwise they stay apart)"
+                />
+              </Box>
+            )}
+          </Grid>
+          <Grid>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isStripHashtags}
+                  onChange={(ev) => {
+                    setStripHashtags(ev.target.checked);
+                  }}
+                  color="primary"
+                />
+              }
+              label="Remove hashtags from content (they are kept as tags)"
+            />
+          </Grid>
+          <Grid>
+            <TextField
+              margin="normal"
+              fullWidth
+              multiline
+              minRows={2}
+              name="tagRules"
+              label="Extra tags by keyword"
+              type="text"
+              placeholder={"One rule per line, like: keyword=tag"}
+              value={tagRules}
+              onChange={(ev) => {
+                setTagRules(ev.target.value);
+              }}
+            />
+          </Grid>
+          <Grid>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isSkipForwards}
+                  onChange={(ev) => {
+                    setSkipForwards(ev.target.checked);
+                  }}
+                  color="primary"
+                />
+              }
+              label="Skip forwarded messages"
+            />
+          </Grid>
+          <Grid>
+            <TextField
+              margin="normal"
+              fullWidth
+              name="forwardAttribution"
+              label="Attribution for forwarded messages"
+              type="text"
+              placeholder="Leave empty to disable"
+              helperText="{source} is replaced with the original author"
+              disabled={isSkipForwards}
+              value={forwardAttribution}
+              onChange={(ev) => {
+                setForwardAttribution(ev.target.value);
+              }}
+            />
+          </Grid>
+          <Grid>
+            <ContentRulesEditor
+              rules={contentRules}
+              onChange={setContentRules}
+              channelName={channelName}
+              stripHashtags={isStripHashtags}
+            />
+          </Grid>
+          <Grid>
+            <TextField
+              select
+              margin="normal"
+              fullWidth
+              name="storageBackend"
+              label="Upload medias and notes to"
+              value={storageBackend}
+              onChange={(ev) => {
+                setStorageBackendType(ev.target.value as StorageBackendType);
+              }}
+            >
+              <MenuItem value="relay">Crossbell IPFS relay</MenuItem>
+              <MenuItem value="kubo">My own IPFS node (Kubo RPC API)</MenuItem>
+              <MenuItem value="local">
+                Nowhere, compute CIDs locally (dry runs only)
+              </MenuItem>
+            </TextField>
+            {storageBackend === "kubo" && (
+              <TextField
+                margin="normal"
+                fullWidth
+                name="kuboApiUrl"
+                label="IPFS node API URL"
+                type="text"
+                placeholder="http://127.0.0.1:5001"
+                helperText="The node should allow CORS requests from this page"
+                value={kuboApiUrl}
+                onChange={(ev) => {
+                  setKuboApiUrl(ev.target.value);
+                }}
+              />
+            )}
+          </Grid>
+          <Grid>
+            <TextField
+              margin="normal"
+              fullWidth
+              name="retryCount"
+              label="Retries on network or chain errors"
+              type="number"
+              inputProps={{ min: 0, max: 10 }}
+              value={retryCount}
+              onChange={(ev) => {
+                setRetryCount(Math.max(0, parseInt(ev.target.value) || 0));
+              }}
+            />
+          </Grid>
+          <Grid>
+            <TextField
+              margin="normal"
+              fullWidth
+              name="uploadConcurrency"
+              label="Messages uploading at the same time"
+              type="number"
+              helperText="Notes are still posted one by one in order"
+              inputProps={{ min: 1, max: 16 }}
+              value={uploadConcurrency}
+              onChange={(ev) => {
+                setUploadConcurrency(
+                  Math.max(1, parseInt(ev.target.value) || 1)
+                );
+              }}
+            />
+          </Grid>
+          <Grid>
+            <TextField
+              margin="normal"
+              fullWidth
+              name="notesInFlight"
+              label="Notes in flight"
+              type="number"
+              helperText="Sent without waiting for the ones before to be confirmed, 1 to disable. Only saves waiting, every note is still its own transaction."
+              inputProps={{ min: 1, max: 50 }}
+              value={notesInFlight}
+              onChange={(ev) => {
+                setNotesInFlight(Math.max(1, parseInt(ev.target.value) || 1));
+              }}
+            />
+          </Grid>
+          <Grid>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isContinueOnError}
+                  onChange={(ev) => {
+                    setContinueOnError(ev.target.checked);
+                  }}
+                  color="primary"
+                />
+              }
+              label="Continue on error (failed messages can be retried at the end)"
             />
           </Grid>
           <Button
@@ -292,15 +645,16 @@ const Settings = () => {
               // Start loading
               setLoading(true);
 
-              // Save settings
-              setSetting({
-                characterHandle,
-                includeService: isIncludeService,
-                aggregatedByTsp: isAggregatedByTsp,
-                channelName: channelName,
-              });
+              saveSettings();
 
               try {
+                checkSettings();
+                if (storageBackend === "local") {
+                  throw new Error(
+                    "Computing CIDs locally uploads nothing, it's for dry runs only. Please pick another storage to migrate."
+                  );
+                }
+
                 // Set Character handle
                 await setContractCharacterHandle(characterHandle);
 
@@ -340,6 +694,37 @@ const Settings = () => {
           >
             Start!
           </Button>
+          <Button
+            type="button"
+            fullWidth
+            variant="outlined"
+            sx={{ mb: 2 }}
+            onClick={async () => {
+              setLoading(true);
+              saveSettings();
+
+              try {
+                checkSettings();
+
+                // Only links to migrated notes need it, so it's fine offline
+                if (characterHandle) {
+                  await setContractCharacterHandle(characterHandle).catch((e) =>
+                    console.log("Failed to look up character: ", e)
+                  );
+                }
+
+                nav("/migrate", { state: { isDryRun: true } });
+              } catch (e: any) {
+                console.log(e);
+                setErrorMessage(e.message);
+                setShowingError(true);
+              }
+
+              setLoading(false);
+            }}
+          >
+            Dry run only, without $CSB
+          </Button>
         </Box>
       </Box>
     </>
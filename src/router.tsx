@@ -4,7 +4,6 @@ import Settings from "./pages/Settings";
 import Migrate from "./pages/Migrate";
 import Finish from "./pages/Finish";
 import Intro from "@/pages/Intro";
-import Error from "@/pages/Error";
 
 const Router = () => (
   <HashRouter>
@@ -13,7 +12,6 @@ const Router = () => (
       <Route path={"settings"} element={<Settings />} />
       <Route path={"migrate"} element={<Migrate />} />
       <Route path={"finish"} element={<Finish />} />
-      <Route path={"error"} element={<Error />} />
     </Routes>
   </HashRouter>
 );